@@ -0,0 +1,117 @@
+// Named authentication profiles for the fetch-request tool
+// Profiles are read from the AUTH_PROFILES secret so credentials never pass through tool arguments
+
+// hosts is required so credentials are only ever sent to the hosts they were issued for
+export type AuthProfile =
+  | { type: "bearer"; token: string; hosts: string[] }
+  | { type: "basic"; username: string; password: string; hosts: string[] }
+  | { type: "api_key"; header: string; value: string; hosts: string[] };
+
+/**
+ * Parse the AUTH_PROFILES secret, a JSON object mapping profile names to profiles
+ */
+export function parseAuthProfiles(secret: string | undefined): Record<string, AuthProfile> {
+  if (!secret) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(secret);
+  } catch (error) {
+    throw new Error(
+      `AUTH_PROFILES is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("AUTH_PROFILES must be a JSON object mapping profile names to profiles");
+  }
+
+  const profiles: Record<string, AuthProfile> = {};
+  for (const [name, value] of Object.entries(parsed as Record<string, unknown>)) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`Auth profile '${name}' must be an object`);
+    }
+    const fields = value as Record<string, unknown>;
+
+    const { hosts } = fields;
+    if (
+      !Array.isArray(hosts) ||
+      hosts.length === 0 ||
+      !hosts.every((host): host is string => typeof host === "string" && host.length > 0)
+    ) {
+      throw new Error(`Auth profile '${name}' requires hosts, a non-empty array of host names it may be sent to`);
+    }
+
+    switch (fields.type) {
+      case "bearer":
+        if (typeof fields.token !== "string") {
+          throw new Error(`Auth profile '${name}' of type bearer requires a token`);
+        }
+        profiles[name] = { type: "bearer", token: fields.token, hosts };
+        break;
+      case "basic":
+        if (typeof fields.username !== "string" || typeof fields.password !== "string") {
+          throw new Error(`Auth profile '${name}' of type basic requires a username and password`);
+        }
+        profiles[name] = { type: "basic", username: fields.username, password: fields.password, hosts };
+        break;
+      case "api_key":
+        if (typeof fields.header !== "string" || typeof fields.value !== "string") {
+          throw new Error(`Auth profile '${name}' of type api_key requires a header and value`);
+        }
+        profiles[name] = { type: "api_key", header: fields.header, value: fields.value, hosts };
+        break;
+      default:
+        throw new Error(`Auth profile '${name}' must have type bearer, basic or api_key`);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * Check a profile's host restriction; *.example.com matches subdomains
+ */
+function hostAllowed(profile: AuthProfile, host: string): boolean {
+  return profile.hosts.some((pattern) => {
+    const candidate = pattern.toLowerCase();
+    if (candidate.startsWith("*.")) {
+      return host.endsWith(candidate.slice(1));
+    }
+    return host === candidate;
+  });
+}
+
+/**
+ * Build the headers that authenticate a request to the given URL with a named profile
+ */
+export function authHeaders(
+  profiles: Record<string, AuthProfile>,
+  name: string,
+  url: URL,
+): Record<string, string> {
+  const profile = profiles[name];
+  if (!profile) {
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Unknown auth profile '${name}'. ${available.length > 0 ? `Available profiles: ${available.join(", ")}` : "No profiles are configured in AUTH_PROFILES"}`,
+    );
+  }
+
+  if (!hostAllowed(profile, url.hostname.toLowerCase())) {
+    throw new Error(`Auth profile '${name}' is not allowed for host ${url.hostname}`);
+  }
+
+  switch (profile.type) {
+    case "bearer":
+      return { Authorization: `Bearer ${profile.token}` };
+    case "basic":
+      return {
+        Authorization: `Basic ${btoa(`${profile.username}:${profile.password}`)}`,
+      };
+    case "api_key":
+      return { [profile.header]: profile.value };
+  }
+}
@@ -0,0 +1,85 @@
+// In-memory cache of converted pages with HTTP validators for revalidation
+
+export interface CachedPage {
+  content: string;
+  prefix: string;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+}
+
+// Upper bound on cached pages; the least recently used page is evicted first
+const MAX_CACHE_ENTRIES = 50;
+
+class ResponseCache {
+  private pages = new Map<string, CachedPage>();
+
+  /**
+   * Look up a page and mark it as recently used
+   */
+  get(key: string): CachedPage | undefined {
+    const page = this.pages.get(key);
+    if (page) {
+      this.pages.delete(key);
+      this.pages.set(key, page);
+    }
+    return page;
+  }
+
+  set(key: string, page: CachedPage): void {
+    this.pages.delete(key);
+    this.pages.set(key, page);
+
+    while (this.pages.size > MAX_CACHE_ENTRIES) {
+      const oldest = this.pages.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.pages.delete(oldest);
+    }
+  }
+
+  /**
+   * Restart the freshness lifetime of a page after a 304 Not Modified
+   */
+  touch(key: string): void {
+    const page = this.pages.get(key);
+    if (page) {
+      page.storedAt = Date.now();
+    }
+  }
+
+  delete(key: string): void {
+    this.pages.delete(key);
+  }
+}
+
+export const responseCache = new ResponseCache();
+
+/**
+ * Seconds since a page was stored or last revalidated
+ */
+export function pageAge(page: CachedPage): number {
+  return Math.floor((Date.now() - page.storedAt) / 1000);
+}
+
+/**
+ * Build conditional request headers from a cached page's validators
+ */
+export function validatorHeaders(page: CachedPage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (page.etag) {
+    headers["If-None-Match"] = page.etag;
+  }
+  if (page.lastModified) {
+    headers["If-Modified-Since"] = page.lastModified;
+  }
+  return headers;
+}
+
+/**
+ * Whether a response's Cache-Control forbids storing it
+ */
+export function isNoStore(response: Response): boolean {
+  return /(^|,)\s*no-store\s*(,|$)/i.test(response.headers.get("cache-control") || "");
+}
@@ -0,0 +1,204 @@
+// Structure-aware markdown chunking with an approximate token budget
+// Splits on headings, fenced code blocks, tables and paragraphs rather than character offsets
+
+export interface Chunk {
+  // Heading paths of the sections that start in this chunk, e.g. "Install > Linux"
+  headings: string[];
+  content: string;
+  tokens: number;
+}
+
+interface Section {
+  heading?: string;
+  blocks: string[];
+}
+
+/**
+ * Approximate the token count of text
+ * Word characters count one token per four characters, other symbols one token each
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? []) {
+    tokens += /^[\p{L}\p{N}_]/u.test(piece) ? Math.ceil(piece.length / 4) : 1;
+  }
+  return tokens;
+}
+
+/**
+ * Split markdown into blocks that must not be cut: fenced code, tables,
+ * headings and blank-line separated paragraphs or lists
+ */
+function splitBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  const lines = markdown.split("\n");
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.some((line) => line.trim())) {
+      blocks.push(current.join("\n"));
+    }
+    current = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^\s*(`{3,}|~{3,})/);
+    if (fence) {
+      flush();
+      const block = [line];
+      while (++i < lines.length) {
+        block.push(lines[i]);
+        if (lines[i].trim().startsWith(fence[1])) {
+          break;
+        }
+      }
+      blocks.push(block.join("\n"));
+      continue;
+    }
+
+    if (/^#{1,6}\s/.test(line)) {
+      flush();
+      blocks.push(line);
+      continue;
+    }
+
+    // A table row following non-table text starts a new block
+    const isTableRow = line.trimStart().startsWith("|");
+    if (isTableRow && current.length > 0 && !current[current.length - 1].trimStart().startsWith("|")) {
+      flush();
+    }
+
+    if (!line.trim()) {
+      flush();
+      continue;
+    }
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+/**
+ * Group blocks into sections, each starting at a heading and labelled with its heading path
+ */
+function splitSections(blocks: string[]): Section[] {
+  const sections: Section[] = [];
+  const path: { level: number; title: string }[] = [];
+  let current: Section = { blocks: [] };
+
+  for (const block of blocks) {
+    const heading = block.match(/^(#{1,6})\s+(.*)$/);
+    if (!heading) {
+      current.blocks.push(block);
+      continue;
+    }
+
+    if (current.blocks.length > 0) {
+      sections.push(current);
+    }
+
+    const level = heading[1].length;
+    while (path.length > 0 && path[path.length - 1].level >= level) {
+      path.pop();
+    }
+    path.push({ level, title: heading[2].replace(/#+\s*$/, "").trim() });
+
+    current = { heading: path.map((entry) => entry.title).join(" > "), blocks: [block] };
+  }
+  if (current.blocks.length > 0) {
+    sections.push(current);
+  }
+
+  return sections;
+}
+
+/**
+ * Split a block that exceeds the budget on line boundaries
+ * Fenced code pieces are re-fenced so each piece stays valid markdown
+ */
+function splitOversized(block: string, maxTokens: number): string[] {
+  const lines = block.split("\n");
+  const fence = lines[0].match(/^\s*(`{3,}|~{3,})/);
+  const opening = fence ? lines.shift()! : "";
+  const closing = fence && lines.length > 0 && lines[lines.length - 1].trim().startsWith(fence[1])
+    ? lines.pop()!
+    : fence?.[1] ?? "";
+  const wrap = (body: string[]) => (fence ? [opening, ...body, closing] : body).join("\n");
+
+  const pieces: string[] = [];
+  let current: string[] = [];
+  for (const line of lines) {
+    // A single line over budget is cut by characters as a last resort
+    const parts = estimateTokens(line) > maxTokens
+      ? line.match(new RegExp(`[^]{1,${maxTokens * 4}}`, "g")) ?? [line]
+      : [line];
+    for (const part of parts) {
+      if (current.length > 0 && estimateTokens(wrap([...current, part])) > maxTokens) {
+        pieces.push(wrap(current));
+        current = [];
+      }
+      current.push(part);
+    }
+  }
+  if (current.length > 0) {
+    pieces.push(wrap(current));
+  }
+
+  return pieces;
+}
+
+/**
+ * Chunk markdown to fit a token budget
+ * Whole sections are packed together while they fit; larger sections are split
+ * between blocks, and blocks larger than the budget between lines
+ */
+export function chunkMarkdown(markdown: string, maxTokens: number): Chunk[] {
+  const chunks: Chunk[] = [];
+  let current: Chunk | null = null;
+
+  const append = (text: string, heading?: string) => {
+    const tokens = estimateTokens(text);
+    if (current && current.tokens + tokens > maxTokens) {
+      chunks.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { headings: [], content: "", tokens: 0 };
+    }
+    current.content = current.content ? `${current.content}\n\n${text}` : text;
+    current.tokens += tokens;
+    if (heading !== undefined && !current.headings.includes(heading)) {
+      current.headings.push(heading);
+    }
+  };
+
+  for (const section of splitSections(splitBlocks(markdown))) {
+    const text = section.blocks.join("\n\n");
+    if (estimateTokens(text) <= maxTokens) {
+      append(text, section.heading);
+      continue;
+    }
+
+    // Oversized sections start a fresh chunk so they are easy to find in the outline
+    if (current) {
+      chunks.push(current);
+      current = null;
+    }
+    // Leave room for the heading so it stays with the first piece of its section
+    const budget = Math.max(1, maxTokens - (section.heading ? estimateTokens(section.blocks[0]) : 0));
+    for (const block of section.blocks) {
+      const pieces = estimateTokens(block) > budget ? splitOversized(block, budget) : [block];
+      for (const piece of pieces) {
+        append(piece, section.heading);
+      }
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
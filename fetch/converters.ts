@@ -0,0 +1,358 @@
+// Content-type aware converters for non-HTML responses
+// JSON, RSS/Atom feeds, XML, CSV and PDF are rendered as markdown; binaries are summarised
+
+import pdf2md from "@opendocsg/pdf2md";
+import { JSONPath } from "jsonpath-plus";
+import { DOMParser } from "linkedom";
+
+export type ContentKind =
+  | "html"
+  | "json"
+  | "feed"
+  | "xml"
+  | "csv"
+  | "pdf"
+  | "text"
+  | "binary";
+
+export interface ConvertOptions {
+  json_path?: string;
+  row_offset?: number;
+  row_limit?: number;
+}
+
+// Characters of each feed item summary to render
+const MAX_FEED_SUMMARY = 300;
+
+const BINARY_TYPES =
+  /^(image|audio|video|font)\/|^application\/(octet-stream|zip|gzip|x-gzip|x-tar|x-7z-compressed|x-rar-compressed|vnd\.|msword|wasm)/i;
+
+// Content types that say nothing about the format, so the body is sniffed instead
+const GENERIC_TYPES = new Set(["", "text/plain", "application/octet-stream", "binary/octet-stream"]);
+
+function formatSize(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  if (bytes === 0) return "0 B";
+
+  const i = Math.floor(Math.log(bytes) / Math.log(1024));
+  if (i === 0) return `${bytes} ${units[i]}`;
+
+  return `${(bytes / Math.pow(1024, i)).toFixed(2)} ${units[i]}`;
+}
+
+/**
+ * Decide how a response body should be converted
+ * A specific Content-Type is trusted; the URL extension and leading bytes are only
+ * sniffed when the type is missing or generic
+ */
+export function detectContentKind(
+  contentType: string,
+  url: string,
+  body: Uint8Array,
+): ContentKind {
+  const type = contentType.split(";")[0].trim().toLowerCase();
+  const extension = new URL(url).pathname.split(".").pop()?.toLowerCase() || "";
+  const head = new TextDecoder().decode(body.slice(0, 512)).trimStart().toLowerCase();
+  const isFeed = /<(rss|feed)[\s>]/.test(head);
+
+  if (!GENERIC_TYPES.has(type)) {
+    if (type === "application/pdf") {
+      return "pdf";
+    }
+    if (type === "text/html" || type === "application/xhtml+xml") {
+      return "html";
+    }
+    if (type === "application/json" || type.endsWith("+json")) {
+      return "json";
+    }
+    if (type === "application/rss+xml" || type === "application/atom+xml") {
+      return "feed";
+    }
+    if (type === "application/xml" || type === "text/xml" || type.endsWith("+xml")) {
+      // Feeds are often served as plain XML
+      return isFeed ? "feed" : "xml";
+    }
+    if (type === "text/csv" || type === "text/tab-separated-values") {
+      return "csv";
+    }
+    return BINARY_TYPES.test(type) || body.slice(0, 1024).includes(0) ? "binary" : "text";
+  }
+
+  if (head.startsWith("%pdf-")) {
+    return "pdf";
+  }
+  if (head.startsWith("<!doctype html") || head.includes("<html")) {
+    return "html";
+  }
+  if (extension === "json") {
+    return "json";
+  }
+  if (isFeed) {
+    return "feed";
+  }
+  if (head.startsWith("<?xml")) {
+    return "xml";
+  }
+  if (extension === "csv" || extension === "tsv") {
+    return "csv";
+  }
+  if (BINARY_TYPES.test(type) || body.slice(0, 1024).includes(0)) {
+    return "binary";
+  }
+  if (!type) {
+    // Untyped responses have historically been treated as HTML
+    return "html";
+  }
+  return "text";
+}
+
+/**
+ * Pretty-print JSON, optionally filtered by a JSONPath expression
+ */
+export function convertJson(text: string, jsonPath?: string): string {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return `<error>Response is not valid JSON (${error instanceof Error ? error.message : String(error)}), here is the raw content:</error>\n${text}`;
+  }
+
+  if (!jsonPath) {
+    return `\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``;
+  }
+
+  let matches: unknown[];
+  try {
+    matches = JSONPath({ path: jsonPath, json: data as object, wrap: true }) as unknown[];
+  } catch (error) {
+    return `<error>Invalid JSONPath expression "${jsonPath}": ${error instanceof Error ? error.message : String(error)}</error>`;
+  }
+  return `${matches.length} ${matches.length === 1 ? "match" : "matches"} for JSONPath \`${jsonPath}\`:\n\`\`\`json\n${JSON.stringify(matches, null, 2)}\n\`\`\``;
+}
+
+/**
+ * Collapse markup and whitespace out of a feed summary
+ */
+function plainText(value: string): string {
+  const text = value
+    .replace(/<[^>]*>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text.length > MAX_FEED_SUMMARY ? `${text.slice(0, MAX_FEED_SUMMARY)}…` : text;
+}
+
+/**
+ * Text content of the first direct child with one of the given tag names
+ */
+function childText(element: Element, ...tags: string[]): string {
+  for (const tag of tags) {
+    const child = Array.from(element.children).find(
+      (candidate) => candidate.tagName.toLowerCase() === tag,
+    );
+    if (child?.textContent?.trim()) {
+      return child.textContent.trim();
+    }
+  }
+  return "";
+}
+
+/**
+ * Render an RSS or Atom feed as a markdown list of items
+ */
+export function convertFeed(xml: string): string {
+  const document = new DOMParser().parseFromString(xml, "text/xml") as unknown as Document;
+  const root = document.documentElement;
+  if (!root) {
+    return `\`\`\`xml\n${xml}\n\`\`\``;
+  }
+
+  const isAtom = root.tagName.toLowerCase() === "feed";
+  const channel = isAtom
+    ? root
+    : Array.from(root.children).find((child) => child.tagName.toLowerCase() === "channel") ?? root;
+
+  const lines: string[] = [];
+  const title = childText(channel, "title");
+  const description = childText(channel, "description", "subtitle");
+  lines.push(`# ${title || "Untitled feed"}`);
+  if (description) {
+    lines.push("", plainText(description));
+  }
+
+  const items = Array.from(channel.children).filter(
+    (child) => child.tagName.toLowerCase() === (isAtom ? "entry" : "item"),
+  );
+  lines.push("", `${items.length} ${items.length === 1 ? "item" : "items"}:`, "");
+
+  items.forEach((item, index) => {
+    const itemTitle = childText(item, "title") || "Untitled";
+    let link = childText(item, "link", "guid");
+    if (isAtom) {
+      const links = Array.from(item.children).filter(
+        (child) => child.tagName.toLowerCase() === "link",
+      );
+      const alternate =
+        links.find((candidate) => (candidate.getAttribute("rel") || "alternate") === "alternate") ??
+        links[0];
+      link = alternate?.getAttribute("href") || link;
+    }
+    const date = childText(item, "pubdate", "published", "updated", "dc:date");
+    const summary = childText(item, "description", "summary", "content");
+
+    lines.push(`${index + 1}. **${link ? `[${itemTitle}](${link})` : itemTitle}**${date ? ` — ${date}` : ""}`);
+    if (summary) {
+      lines.push(`   ${plainText(summary)}`);
+    }
+  });
+
+  return lines.join("\n");
+}
+
+/**
+ * Split delimited text into rows, honouring quoted fields
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((candidate) => candidate.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Render CSV or TSV as a markdown table, paginated by rows
+ */
+export function convertCsv(
+  text: string,
+  contentType: string,
+  rowOffset: number,
+  rowLimit: number,
+): string {
+  const delimiter = contentType.includes("tab-separated") || (!text.split("\n")[0].includes(",") && text.includes("\t"))
+    ? "\t"
+    : ",";
+  const [header = [], ...rows] = parseDelimited(text, delimiter);
+  if (header.length === 0) {
+    return "<error>CSV content is empty</error>";
+  }
+
+  const escapeCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ").trim();
+  const width = Math.max(header.length, ...rows.map((row) => row.length));
+  const pad = (row: string[]) =>
+    Array.from({ length: width }, (_, i) => escapeCell(row[i] ?? ""));
+
+  const page = rows.slice(rowOffset, rowOffset + rowLimit);
+  const lines = [
+    `| ${pad(header).join(" | ")} |`,
+    `| ${Array.from({ length: width }, () => "---").join(" | ")} |`,
+    ...page.map((row) => `| ${pad(row).join(" | ")} |`),
+  ];
+
+  const shownTo = rowOffset + page.length;
+  let summary = page.length > 0
+    ? `Rows ${rowOffset + 1}-${shownTo} of ${rows.length}`
+    : `No rows at row_offset ${rowOffset} (${rows.length} rows in total)`;
+  if (shownTo < rows.length) {
+    summary += `. Call the fetch tool with a row_offset of ${shownTo} to get more rows.`;
+  }
+
+  return `${lines.join("\n")}\n\n${summary}`;
+}
+
+/**
+ * Convert a PDF document to markdown
+ */
+export async function convertPdf(body: Uint8Array): Promise<string> {
+  return await pdf2md(body);
+}
+
+/**
+ * Describe a binary response instead of decoding it as text
+ */
+export async function summarizeBinary(body: Uint8Array, contentType: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new Uint8Array(body));
+  const hash = Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+
+  return [
+    "Binary content cannot be converted to text.",
+    `Content type: ${contentType || "unknown"}`,
+    `Size: ${formatSize(body.length)} (${body.length} bytes)`,
+    `SHA-256: ${hash}`,
+  ].join("\n");
+}
+
+/**
+ * Convert a non-HTML response body to markdown according to its kind
+ */
+export async function convertContent(
+  kind: Exclude<ContentKind, "html">,
+  body: Uint8Array,
+  contentType: string,
+  options: ConvertOptions,
+): Promise<string> {
+  const { json_path, row_offset = 0, row_limit = 100 } = options;
+
+  switch (kind) {
+    case "pdf":
+      return await convertPdf(body);
+    case "binary":
+      return await summarizeBinary(body, contentType);
+  }
+
+  const text = new TextDecoder().decode(body);
+  switch (kind) {
+    case "json":
+      return convertJson(text, json_path);
+    case "feed":
+      return convertFeed(text);
+    case "xml":
+      return `\`\`\`xml\n${text}\n\`\`\``;
+    case "csv":
+      return convertCsv(text, contentType, row_offset, row_limit);
+    default:
+      return text;
+  }
+}
@@ -0,0 +1,114 @@
+// Bounded same-site crawling helpers for the crawl tool
+// URL glob filters, sitemap parsing and storage of finished crawls
+
+import { DOMParser } from "linkedom";
+
+export interface CrawledPage {
+  url: string;
+  title?: string;
+  depth: number;
+  content: string;
+}
+
+export interface SkippedPage {
+  url: string;
+  reason: string;
+}
+
+export interface CrawlResult {
+  id: string;
+  start_url: string;
+  pages: CrawledPage[];
+  skipped: SkippedPage[];
+  createdAt: number;
+}
+
+export interface Sitemap {
+  // Page URLs listed by a <urlset>
+  pages: string[];
+  // Nested sitemap URLs listed by a <sitemapindex>
+  sitemaps: string[];
+}
+
+// Upper bound on stored crawls; the oldest crawl is dropped first
+const MAX_STORED_CRAWLS = 10;
+
+/**
+ * Compile a URL path glob: ** matches across segments, * and ? stay within one
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      pattern += ".*";
+      i++;
+    } else if (char === "*") {
+      pattern += "[^/]*";
+    } else if (char === "?") {
+      pattern += "[^/]";
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+/**
+ * Whether a URL's path passes the include and exclude globs
+ * With no include globs every path is included; excludes always win
+ */
+export function matchesGlobs(url: string, include: RegExp[], exclude: RegExp[]): boolean {
+  const path = new URL(url).pathname;
+  if (exclude.some((glob) => glob.test(path))) {
+    return false;
+  }
+  return include.length === 0 || include.some((glob) => glob.test(path));
+}
+
+/**
+ * Parse a sitemap or sitemap index, returning null when the XML is neither
+ */
+export function parseSitemap(xml: string): Sitemap | null {
+  const document = new DOMParser().parseFromString(xml, "text/xml") as unknown as Document;
+  const root = document.documentElement;
+  const rootName = root?.tagName.toLowerCase().replace(/^.*:/, "");
+  if (!root || (rootName !== "urlset" && rootName !== "sitemapindex")) {
+    return null;
+  }
+
+  const locations = Array.from(root.getElementsByTagName("loc"))
+    .map((loc) => (loc.textContent || "").trim())
+    .filter(Boolean);
+
+  return rootName === "urlset"
+    ? { pages: locations, sitemaps: [] }
+    : { pages: [], sitemaps: locations };
+}
+
+class CrawlStore {
+  private crawls = new Map<string, CrawlResult>();
+
+  get(id: string): CrawlResult | undefined {
+    return this.crawls.get(id);
+  }
+
+  /**
+   * Store a finished crawl under a new id
+   */
+  add(crawl: Omit<CrawlResult, "id" | "createdAt">): CrawlResult {
+    const stored = { ...crawl, id: crypto.randomUUID().slice(0, 8), createdAt: Date.now() };
+    this.crawls.set(stored.id, stored);
+
+    while (this.crawls.size > MAX_STORED_CRAWLS) {
+      const oldest = this.crawls.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.crawls.delete(oldest);
+    }
+    return stored;
+  }
+}
+
+export const crawlStore = new CrawlStore();
@@ -0,0 +1,299 @@
+// Readability-style main content extraction for the fetch plugin
+// Scores block elements by text density and link ratio and keeps the best one
+
+import { parseHTML } from "linkedom";
+
+export interface Article {
+  title?: string;
+  byline?: string;
+  published?: string;
+  html: string;
+}
+
+// Elements that never carry article content
+const STRIP_TAGS = [
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "iframe",
+  "svg",
+  "canvas",
+  "form",
+  "button",
+  "input",
+  "select",
+  "textarea",
+  "nav",
+  "aside",
+  "footer",
+  "header",
+  "dialog",
+];
+
+// Blocks that are considered when scoring text density
+const SCORE_TAGS = new Set(["P", "PRE", "TD", "BLOCKQUOTE", "LI", "DD"]);
+
+const UNLIKELY_CANDIDATES =
+  /ad-|ads|advert|banner|breadcrumb|combx|comment|community|consent|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|nav|newsletter|outbrain|pager|popup|promo|related|remark|rss|share|shoutbox|sidebar|skip|social|sponsor|subscribe|taboola|toolbar|tweet|twitter|widget/i;
+const MAYBE_CANDIDATE = /and|article|body|column|content|main|shadow/i;
+const POSITIVE_HINTS =
+  /article|body|blog|content|entry|h-entry|main|page|post|story|text/i;
+const NEGATIVE_HINTS =
+  /-ad-|banner|byline|comment|contact|cookie|footer|foot|masthead|media|meta|outbrain|promo|related|scroll|share|shopping|sidebar|sponsor|tags|taboola|widget/i;
+
+// Minimum characters a block needs before it contributes to a score
+const MIN_BLOCK_LENGTH = 25;
+
+/**
+ * Collapse whitespace in the text content of an element
+ */
+function textOf(element: Element): string {
+  return (element.textContent || "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Fraction of an element's text that sits inside links
+ */
+function linkDensity(element: Element): number {
+  const textLength = textOf(element).length;
+  if (textLength === 0) {
+    return 0;
+  }
+
+  let linkLength = 0;
+  for (const link of Array.from(element.querySelectorAll("a"))) {
+    linkLength += textOf(link).length;
+  }
+  return linkLength / textLength;
+}
+
+/**
+ * Score an element's class and id against content hints
+ */
+function classWeight(element: Element): number {
+  const hints = `${element.getAttribute("class") || ""} ${element.id || ""}`;
+  let weight = 0;
+  if (NEGATIVE_HINTS.test(hints)) {
+    weight -= 25;
+  }
+  if (POSITIVE_HINTS.test(hints)) {
+    weight += 25;
+  }
+  return weight;
+}
+
+/**
+ * Base score of a candidate container by tag name
+ */
+function tagWeight(element: Element): number {
+  switch (element.tagName) {
+    case "ARTICLE":
+    case "MAIN":
+      return 10;
+    case "DIV":
+    case "SECTION":
+      return 5;
+    case "PRE":
+    case "TD":
+    case "BLOCKQUOTE":
+      return 3;
+    case "OL":
+    case "UL":
+    case "DL":
+    case "FORM":
+      return -3;
+    case "H1":
+    case "H2":
+    case "H3":
+    case "TH":
+      return -5;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Read the content attribute of the first matching meta tag
+ */
+function metaContent(document: Document, selectors: string[]): string | undefined {
+  for (const selector of selectors) {
+    const value = document.querySelector(selector)?.getAttribute("content")?.trim();
+    if (value) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Pull title, byline and published date out of the page head and body
+ */
+function extractMetadata(document: Document): Omit<Article, "html"> {
+  const title =
+    metaContent(document, ['meta[property="og:title"]', 'meta[name="twitter:title"]']) ||
+    (document.querySelector("h1") && textOf(document.querySelector("h1")!)) ||
+    document.title?.trim() ||
+    undefined;
+
+  let byline = metaContent(document, [
+    'meta[name="author"]',
+    'meta[property="article:author"]',
+    'meta[name="byl"]',
+  ]);
+  if (!byline) {
+    const authorElement = document.querySelector(
+      '[rel="author"], [itemprop="author"], .byline, .author',
+    );
+    if (authorElement) {
+      byline = textOf(authorElement) || undefined;
+    }
+  }
+
+  let published = metaContent(document, [
+    'meta[property="article:published_time"]',
+    'meta[name="date"]',
+    'meta[name="publish-date"]',
+    'meta[itemprop="datePublished"]',
+  ]);
+  if (!published) {
+    const timeElement = document.querySelector("time[datetime]");
+    published = timeElement?.getAttribute("datetime")?.trim() || undefined;
+  }
+
+  return { title, byline, published };
+}
+
+/**
+ * Remove boilerplate elements before scoring
+ */
+function stripBoilerplate(body: Element): void {
+  for (const element of Array.from(body.querySelectorAll(STRIP_TAGS.join(",")))) {
+    element.remove();
+  }
+
+  for (const element of Array.from(body.querySelectorAll("*"))) {
+    if (element.tagName === "BODY" || element.tagName === "HTML" || element.tagName === "A") {
+      continue;
+    }
+
+    const hints = `${element.getAttribute("class") || ""} ${element.id || ""}`;
+    const hidden =
+      element.hasAttribute("hidden") ||
+      element.getAttribute("aria-hidden") === "true" ||
+      /display:\s*none/i.test(element.getAttribute("style") || "");
+    const role = element.getAttribute("role") || "";
+    const unlikely =
+      UNLIKELY_CANDIDATES.test(hints) &&
+      !MAYBE_CANDIDATE.test(hints) &&
+      !element.querySelector("article, main, pre");
+
+    if (hidden || unlikely || /navigation|banner|complementary|contentinfo|dialog/.test(role)) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * Score blocks by text density and link ratio and return the best container
+ */
+function findMainContent(body: Element): Element | null {
+  const scores = new Map<Element, number>();
+
+  const addScore = (element: Element | null, amount: number) => {
+    if (!element || element.tagName === "BODY" || element.tagName === "HTML") {
+      return;
+    }
+    if (!scores.has(element)) {
+      scores.set(element, tagWeight(element) + classWeight(element));
+    }
+    scores.set(element, scores.get(element)! + amount);
+  };
+
+  for (const block of Array.from(body.querySelectorAll("*"))) {
+    if (!SCORE_TAGS.has(block.tagName)) {
+      continue;
+    }
+
+    const text = textOf(block);
+    if (text.length < MIN_BLOCK_LENGTH) {
+      continue;
+    }
+
+    // One point per block, one per comma and one per 100 characters (capped)
+    const blockScore = 1 + text.split(",").length + Math.min(Math.floor(text.length / 100), 3);
+
+    const parent = block.parentElement;
+    addScore(parent, blockScore);
+    addScore(parent?.parentElement ?? null, blockScore / 2);
+    addScore(parent?.parentElement?.parentElement ?? null, blockScore / 3);
+  }
+
+  let best: Element | null = null;
+  let bestScore = 0;
+  for (const [element, score] of scores) {
+    // Containers that are mostly links are navigation, not content
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  // A lone block usually means the real article is its parent
+  while (best && best.parentElement && best.parentElement.tagName !== "BODY") {
+    const parent = best.parentElement;
+    const parentScore = (scores.get(parent) ?? 0) * (1 - linkDensity(parent));
+    if (parentScore < bestScore * 0.75 || textOf(parent).length > textOf(best).length * 2) {
+      break;
+    }
+    best = parent;
+    bestScore = parentScore;
+  }
+
+  return best;
+}
+
+/**
+ * Extract only the body content from HTML
+ * Returns the innerHTML of the body without scripts and styles, or the original HTML if no body found
+ */
+export function extractBody(html: string): string {
+  const { document } = parseHTML(html);
+  const body = document.body;
+  if (!body) {
+    return html;
+  }
+
+  for (const element of Array.from(body.querySelectorAll("script, style, noscript, template"))) {
+    element.remove();
+  }
+  return body.innerHTML;
+}
+
+/**
+ * Extract the main article of an HTML page
+ * Falls back to the cleaned body when no content block stands out
+ */
+export function extractArticle(html: string): Article {
+  const { document } = parseHTML(html);
+  const metadata = extractMetadata(document);
+
+  const body = document.body;
+  if (!body) {
+    return { ...metadata, html };
+  }
+
+  stripBoilerplate(body);
+
+  const explicit = body.querySelector("article, main, [role=main], [itemprop=articleBody]");
+  const main = findMainContent(body);
+
+  // Prefer the explicit <article>/<main> element when it contains the best block
+  let content = main;
+  if (explicit && (!main || explicit.contains(main)) && textOf(explicit).length > 0) {
+    content = explicit;
+  }
+
+  return { ...metadata, html: (content ?? body).innerHTML };
+}
@@ -2,6 +2,30 @@
 // Converts the MCP fetch server to jilebi plugin format
 // All functions take (request, env) parameters as required by jilebi
 
+import { authHeaders, parseAuthProfiles } from "./auth";
+import {
+  CachedPage,
+  isNoStore,
+  pageAge,
+  responseCache,
+  validatorHeaders,
+} from "./cache";
+import { chunkMarkdown } from "./chunk";
+import { convertContent, detectContentKind } from "./converters";
+import {
+  CrawledPage,
+  SkippedPage,
+  crawlStore,
+  globToRegExp,
+  matchesGlobs,
+  parseSitemap,
+} from "./crawl";
+import { extractArticle, extractBody } from "./extract";
+import { extractMetadata } from "./metadata";
+import { hostRateLimiter, robotsCache } from "./politeness";
+import { SelectedNode, selectByCss, selectByXPath } from "./select";
+import { AddressVerdict, checkAddress, parseAllowlist } from "./ssrf";
+
 // MCP Protocol interfaces
 interface MCPTextContent {
   type: "text";
@@ -13,15 +37,105 @@ interface MCPResult {
   isError?: boolean;
 }
 
+// Environment interface for accessing configuration
+interface Environment {
+  RESPECT_ROBOTS?: string;
+  USER_AGENT?: string;
+  MIN_REQUEST_INTERVAL_MS?: string;
+  CACHE_TTL_SECONDS?: string;
+  AUTH_PROFILES?: string;
+  PRIVATE_NETWORK_ALLOWLIST?: string;
+}
+
 interface FetchRequest {
   url: string;
   max_length?: number;
   start_index?: number;
   raw?: boolean;
+  extract?: ExtractMode;
+  selector?: string;
+  xpath?: string;
+  json_path?: string;
+  row_offset?: number;
+  row_limit?: number;
+  refresh?: boolean;
+  max_tokens?: number;
+  chunk?: number;
+}
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE" | "HEAD";
+
+const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "PATCH", "DELETE", "HEAD"];
+
+interface HttpRequest {
+  url: string;
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  json?: unknown;
+  form?: Record<string, string>;
+  body?: string;
+  auth_profile?: string;
+  max_length?: number;
+  start_index?: number;
+}
+
+interface MetadataRequest {
+  url: string;
+  same_origin?: boolean;
+  link_pattern?: string;
+  max_links?: number;
+}
+
+interface CrawlRequest {
+  url: string;
+  max_depth?: number;
+  max_pages?: number;
+  include?: string[];
+  exclude?: string[];
+  extract?: ExtractMode;
 }
 
+interface CrawlPageRequest {
+  crawl_id: string;
+  index: number;
+  max_length?: number;
+  start_index?: number;
+}
+
+// Converted page content before pagination
+interface ConvertedPage {
+  content: string;
+  prefix: string;
+}
+
+type ExtractMode = "article" | "body" | "full";
+
+const EXTRACT_MODES: ExtractMode[] = ["article", "body", "full"];
+
 const DEFAULT_USER_AGENT = "jilebi-server";
 
+const DEFAULT_MIN_REQUEST_INTERVAL_MS = 1000;
+
+const DEFAULT_CACHE_TTL_SECONDS = 300;
+
+const MAX_REDIRECTS = 10;
+
+const MIN_CHUNK_TOKENS = 50;
+
+const MAX_CHUNK_TOKENS = 100000;
+
+const MAX_CRAWL_DEPTH = 5;
+
+const MAX_CRAWL_PAGES = 100;
+
+// Nested sitemap indexes followed before giving up
+const MAX_SITEMAPS = 10;
+
+// Result of a guarded fetch: the final response, or the hop the SSRF guard refused
+type GuardedResponse =
+  | { response: Response; url: string }
+  | { blocked: AddressVerdict; url: string };
+
 /**
  * Validate URL format
  */
@@ -35,12 +149,389 @@ function is_valid_url(urlString: string): boolean {
 }
 
 /**
- * Extract only the body content from HTML
- * Returns the innerHTML of the body tag, or the original HTML if no body found
+ * Convert an HTML page to markdown according to the extraction mode
+ * Article mode prefixes the markdown with the title, byline and published date
+ */
+function convertHtml(html: string, extract: ExtractMode): string {
+  if (extract === "full") {
+    return html2markdown(html);
+  }
+
+  if (extract === "body") {
+    return html2markdown(extractBody(html));
+  }
+
+  const article = extractArticle(html);
+  const header: string[] = [];
+  if (article.title) {
+    header.push(`# ${article.title}`);
+  }
+  if (article.byline) {
+    header.push(`By: ${article.byline}`);
+  }
+  if (article.published) {
+    header.push(`Published: ${article.published}`);
+  }
+
+  const markdown = html2markdown(article.html);
+  return header.length > 0 ? `${header.join("\n")}\n\n${markdown}` : markdown;
+}
+
+/**
+ * Fetch a URL, following redirects manually so every hop passes the SSRF guard
+ * Credentials in sensitiveHeaders are dropped when a redirect leaves the origin
+ */
+async function guarded_fetch(
+  url: string,
+  init: RequestInit,
+  env: Environment,
+  minInterval: number,
+  sensitiveHeaders: string[] = [],
+): Promise<GuardedResponse> {
+  const allowlist = parseAllowlist(env.PRIVATE_NETWORK_ALLOWLIST);
+  let currentUrl = url;
+  let method = (init.method || "GET").toUpperCase();
+  let body = init.body;
+  const headers = new Headers(init.headers);
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const verdict = await checkAddress(new URL(currentUrl), allowlist);
+    if (!verdict.allowed) {
+      return { blocked: verdict, url: currentUrl };
+    }
+
+    const response = await hostRateLimiter.fetch(currentUrl, minInterval, {
+      ...init,
+      method,
+      headers,
+      body,
+      redirect: "manual",
+    });
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) {
+      return { response, url: currentUrl };
+    }
+    await response.body?.cancel();
+
+    const nextUrl = new URL(location, currentUrl).toString();
+    if (!is_valid_url(nextUrl)) {
+      throw new Error(`Refusing to follow redirect from ${currentUrl} to ${nextUrl}`);
+    }
+
+    // 303, and 301/302 after a non-GET request, continue as a GET without a body
+    if (
+      response.status === 303 ||
+      ((response.status === 301 || response.status === 302) && method !== "GET" && method !== "HEAD")
+    ) {
+      method = method === "HEAD" ? "HEAD" : "GET";
+      body = undefined;
+      headers.delete("Content-Type");
+    }
+
+    if (new URL(nextUrl).origin !== new URL(currentUrl).origin) {
+      for (const name of ["Authorization", "Cookie", ...sensitiveHeaders]) {
+        headers.delete(name);
+      }
+    }
+
+    currentUrl = nextUrl;
+  }
+
+  throw new Error(`Too many redirects (more than ${MAX_REDIRECTS}) fetching ${url}`);
+}
+
+/**
+ * Structured error for a URL refused by the SSRF guard
+ */
+function blocked_result(verdict: AddressVerdict, url: string): MCPResult {
+  return {
+    content: [
+      {
+        type: "text",
+        text: JSON.stringify(
+          {
+            status: "blocked_address",
+            url,
+            host: verdict.host,
+            address: verdict.address,
+            rule: verdict.rule,
+            message: `Refusing to fetch ${url}: ${verdict.host}${verdict.address && verdict.address !== verdict.host ? ` (${verdict.address})` : ""} is blocked by the rule "${verdict.rule}". Add the host or address range to PRIVATE_NETWORK_ALLOWLIST to permit it.`,
+          },
+          null,
+          2,
+        ),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Download a page for the read-only tools
+ * Applies the SSRF guard, robots.txt policy and per-host throttle, and
+ * returns an error result when any of them refuses the URL
+ */
+async function fetch_page(
+  url: string,
+  env: Environment,
+  extraHeaders: Record<string, string> = {},
+): Promise<{ response: Response; url: string } | MCPResult> {
+  const userAgent = env.USER_AGENT || DEFAULT_USER_AGENT;
+  const configuredInterval = Number(env.MIN_REQUEST_INTERVAL_MS);
+  let minInterval = Number.isFinite(configuredInterval) && env.MIN_REQUEST_INTERVAL_MS
+    ? Math.max(0, configuredInterval)
+    : DEFAULT_MIN_REQUEST_INTERVAL_MS;
+
+  // Honour robots.txt when the user has opted in
+  if (env.RESPECT_ROBOTS === "true") {
+    // Guard the origin before robots.txt is requested from it
+    const addressVerdict = await checkAddress(
+      new URL(url),
+      parseAllowlist(env.PRIVATE_NETWORK_ALLOWLIST),
+    );
+    if (!addressVerdict.allowed) {
+      return blocked_result(addressVerdict, url);
+    }
+
+    // robots.txt goes through the same per-hop guard, so it cannot redirect to a private address
+    const verdict = await robotsCache.check(new URL(url), userAgent, async (robotsUrl) => {
+      const result = await guarded_fetch(robotsUrl, { headers: { "User-Agent": userAgent } }, env, 0);
+      return "response" in result ? result.response : null;
+    });
+    if (!verdict.allowed) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                status: "robots_disallowed",
+                url,
+                robots_url: verdict.robotsUrl,
+                user_agent: userAgent,
+                rule: verdict.rule,
+                message: `Fetching ${url} is disallowed by ${verdict.robotsUrl}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+        isError: true,
+      };
+    }
+    if (verdict.crawlDelay !== undefined) {
+      minInterval = Math.max(minInterval, verdict.crawlDelay * 1000);
+    }
+  }
+
+  try {
+    const result = await guarded_fetch(
+      url,
+      {
+        headers: {
+          "User-Agent": userAgent,
+          ...extraHeaders,
+        },
+      },
+      env,
+      minInterval,
+    );
+    if ("blocked" in result) {
+      return blocked_result(result.blocked, result.url);
+    }
+    return result;
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Slice content for pagination, appending a notice when more content remains
+ * Returns null when there is no content at start_index
+ */
+function paginate(
+  content: string,
+  start_index: number,
+  max_length: number,
+  tool: string,
+): string | null {
+  const originalLength = content.length;
+  if (start_index >= originalLength) {
+    return null;
+  }
+
+  let truncatedContent = content.slice(start_index, start_index + max_length);
+  if (!truncatedContent) {
+    return null;
+  }
+
+  const actualContentLength = truncatedContent.length;
+  const remainingContent =
+    originalLength - (start_index + actualContentLength);
+
+  // Add truncation notice if there's more content
+  if (actualContentLength === max_length && remainingContent > 0) {
+    const nextStart = start_index + actualContentLength;
+    truncatedContent += `\n\n<error>Content truncated. Call the ${tool} tool with a start_index of ${nextStart} to get more content.</error>`;
+  }
+
+  return truncatedContent;
+}
+
+/**
+ * Render one chunk of structure-aware chunked content with an outline of every chunk
+ * Returns an error message when the requested chunk does not exist
+ */
+function render_chunk(
+  content: string,
+  max_tokens: number,
+  chunk: number,
+  tool: string,
+): { text: string } | { error: string } {
+  const chunks = chunkMarkdown(content, max_tokens);
+  if (chunks.length === 0) {
+    return { error: "No content available to chunk" };
+  }
+  if (!Number.isInteger(chunk) || chunk < 1 || chunk > chunks.length) {
+    return { error: `chunk must be between 1 and ${chunks.length}` };
+  }
+
+  const outline = chunks.map((entry, index) => {
+    const marker = index + 1 === chunk ? "→" : " ";
+    const headings = entry.headings.length > 0 ? entry.headings.join("; ") : "(untitled)";
+    return `${marker} ${index + 1}. ${headings} (~${entry.tokens} tokens)`;
+  });
+
+  const lines = [
+    `Chunk ${chunk} of ${chunks.length} (~${chunks[chunk - 1].tokens} tokens):`,
+    chunks[chunk - 1].content,
+    "",
+    "Outline:",
+    ...outline,
+  ];
+  if (chunk < chunks.length) {
+    lines.push(
+      "",
+      `<error>More content available. Call the ${tool} tool with a max_tokens of ${max_tokens} and a chunk of ${chunk + 1} for the next chunk, or pick any chunk from the outline.</error>`,
+    );
+  }
+  return { text: lines.join("\n") };
+}
+
+/**
+ * Cache key for a request: the URL plus every option that affects conversion
+ */
+function cache_key(request: FetchRequest): string {
+  const {
+    url,
+    raw = false,
+    extract = "article",
+    selector,
+    xpath,
+    json_path,
+    row_offset = 0,
+    row_limit = 100,
+  } = request;
+  return JSON.stringify([url, raw, extract, selector, xpath, json_path, row_offset, row_limit]);
+}
+
+/**
+ * Render the nodes matched by a selector or XPath expression
+ * Each match is listed with its path, as markdown or as raw HTML
+ */
+function renderMatches(
+  matches: SelectedNode[],
+  description: string,
+  raw: boolean,
+): string {
+  const sections = matches.map((match, index) => {
+    let body: string;
+    if (match.text !== undefined) {
+      body = match.text;
+    } else {
+      body = raw ? match.html : html2markdown(match.html);
+    }
+    return `### Match ${index + 1}: ${match.path}\n${body}`;
+  });
+
+  return `Found ${matches.length} ${matches.length === 1 ? "match" : "matches"} for ${description}\n\n${sections.join("\n\n")}`;
+}
+
+/**
+ * Convert a successful response into page content according to the request
+ * Throws when a selector or XPath expression cannot be applied
  */
-function extractBodyContent(html: string): string {
-  const bodyMatch = html.match(/<body\b[^>]*>([\s\S]*?)<\/body>/i);
-  return bodyMatch ? bodyMatch[1] : html;
+async function convertResponse(
+  url: string,
+  response: Response,
+  request: FetchRequest,
+): Promise<ConvertedPage> {
+  const {
+    raw = false,
+    extract = "article",
+    selector,
+    xpath,
+    json_path,
+    row_offset = 0,
+    row_limit = 100,
+  } = request;
+
+  const body = new Uint8Array(await response.arrayBuffer());
+  const contentType = response.headers.get("content-type") || "";
+  const kind = detectContentKind(contentType, url, body);
+  const pageRaw = kind === "pdf" || kind === "binary" ? "" : new TextDecoder().decode(body);
+
+  if (selector || xpath) {
+    if (kind !== "html") {
+      throw new Error(
+        `selector and xpath require an HTML page, but ${url} returned content type ${contentType}`,
+      );
+    }
+
+    const matches = selector
+      ? selectByCss(pageRaw, selector)
+      : selectByXPath(pageRaw, xpath!);
+    const description = selector
+      ? `selector \`${selector}\``
+      : `xpath \`${xpath}\``;
+    if (matches.length === 0) {
+      throw new Error(`No elements in ${url} matched ${description}`);
+    }
+
+    return { content: renderMatches(matches, description, raw), prefix: "" };
+  }
+
+  if (kind === "html" && !raw) {
+    const content = convertHtml(pageRaw, extract);
+    return {
+      content: content || "<error>Page failed to be simplified from HTML</error>",
+      prefix: "",
+    };
+  }
+
+  if (kind === "html" || (raw && pageRaw)) {
+    return { content: pageRaw, prefix: "" };
+  }
+
+  const content = await convertContent(kind, body, contentType, {
+    json_path,
+    row_offset,
+    row_limit,
+  });
+  const prefix = kind === "text"
+    ? `Content type ${contentType} cannot be simplified to markdown, but here is the raw content:\n`
+    : "";
+  return { content, prefix };
 }
 
 /**
@@ -49,10 +540,23 @@ function extractBodyContent(html: string): string {
  */
 export async function fetch_url(
   request: FetchRequest,
-  _env: Environment,
+  env: Environment,
 ): Promise<MCPResult> {
   try {
-    const { url, max_length = 5000, start_index = 0, raw = false } = request;
+    const {
+      url,
+      max_length = 5000,
+      start_index = 0,
+      raw = false,
+      extract = "article",
+      selector,
+      xpath,
+      row_offset = 0,
+      row_limit = 100,
+      refresh = false,
+      max_tokens,
+      chunk = 1,
+    } = request;
 
     // Validate URL
     if (!url) {
@@ -92,91 +596,169 @@ export async function fetch_url(
       };
     }
 
-    if (start_index < 0) {
+    if (!EXTRACT_MODES.includes(extract)) {
       return {
         content: [
           {
             type: "text",
-            text: "start_index must be non-negative",
+            text: `extract must be one of: ${EXTRACT_MODES.join(", ")}`,
           },
         ],
         isError: true,
       };
     }
 
-    // Fetch the URL
-    let response: Response;
-    try {
-      response = await fetch(url, {
-        headers: {
-          "User-Agent": DEFAULT_USER_AGENT,
-        },
-        redirect: "follow",
-      });
-    } catch (error) {
+    if (selector && xpath) {
       return {
         content: [
           {
             type: "text",
-            text: `Failed to fetch ${url}: ${error instanceof Error ? error.message : String(error)}`,
+            text: "Specify either selector or xpath, not both",
           },
         ],
         isError: true,
       };
     }
 
-    if (!response.ok) {
+    if (row_offset < 0 || row_limit <= 0 || row_limit > 10000) {
       return {
         content: [
           {
             type: "text",
-            text: `Failed to fetch ${url} - status code ${response.status}`,
+            text: "row_offset must be non-negative and row_limit must be between 1 and 10000",
           },
         ],
         isError: true,
       };
     }
 
-    const pageRaw = await response.text();
-    const contentType = response.headers.get("content-type") || "";
+    if (start_index < 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "start_index must be non-negative",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (max_tokens !== undefined && (max_tokens < MIN_CHUNK_TOKENS || max_tokens > MAX_CHUNK_TOKENS)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `max_tokens must be between ${MIN_CHUNK_TOKENS} and ${MAX_CHUNK_TOKENS}`,
+          },
+        ],
+        isError: true,
+      };
+    }
 
-    // Determine if content is HTML
-    const isPageHtml =
-      pageRaw.slice(0, 100).toLowerCase().includes("<html") ||
-      contentType.includes("text/html") ||
-      !contentType;
+    const ttlSetting = Number(env.CACHE_TTL_SECONDS);
+    const ttl = Number.isFinite(ttlSetting) && env.CACHE_TTL_SECONDS
+      ? Math.max(0, ttlSetting)
+      : DEFAULT_CACHE_TTL_SECONDS;
+    const cacheKey = cache_key(request);
+    const cached = refresh ? undefined : responseCache.get(cacheKey);
 
-    let content: string;
-    let prefix = "";
+    let page: CachedPage;
+    let cacheStatus: string;
 
-    if (isPageHtml && !raw) {
-      content = html2markdown(pageRaw);
-      if (!content) {
-        content = "<error>Page failed to be simplified from HTML</error>";
-      }
+    if (cached && pageAge(cached) < ttl) {
+      // Serve pagination and repeat calls without touching the network
+      page = cached;
+      cacheStatus = `hit, ${pageAge(cached)}s old`;
     } else {
-      content = pageRaw;
-      if (!isPageHtml) {
-        prefix = `Content type ${contentType} cannot be simplified to markdown, but here is the raw content:\n`;
+      // Fetch the URL, revalidating a stale cached copy when there is one
+      const fetched = await fetch_page(url, env, cached ? validatorHeaders(cached) : {});
+      if ("content" in fetched) {
+        return fetched;
+      }
+      const { response, url: finalUrl } = fetched;
+
+      if (cached && response.status === 304) {
+        responseCache.touch(cacheKey);
+        page = cached;
+        cacheStatus = "revalidated, not modified";
+      } else {
+        if (!response.ok) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: `Failed to fetch ${url} - status code ${response.status}`,
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        let converted: ConvertedPage;
+        try {
+          converted = await convertResponse(finalUrl, response, request);
+        } catch (error) {
+          return {
+            content: [
+              {
+                type: "text",
+                text: error instanceof Error ? error.message : String(error),
+              },
+            ],
+            isError: true,
+          };
+        }
+
+        page = {
+          ...converted,
+          etag: response.headers.get("etag") ?? undefined,
+          lastModified: response.headers.get("last-modified") ?? undefined,
+          storedAt: Date.now(),
+        };
+        if (ttl > 0 && !isNoStore(response)) {
+          responseCache.set(cacheKey, page);
+        } else {
+          responseCache.delete(cacheKey);
+        }
+
+        if (cached) {
+          cacheStatus = "miss, content changed";
+        } else {
+          cacheStatus = refresh ? "miss, refreshed" : "miss";
+        }
       }
     }
 
-    // Handle pagination
-    const originalLength = content.length;
+    const { content, prefix } = page;
 
-    if (start_index >= originalLength) {
+    // Chunking mode splits on markdown structure instead of character offsets
+    if (max_tokens !== undefined) {
+      const rendered = render_chunk(content, max_tokens, chunk, "fetch");
+      if ("error" in rendered) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: rendered.error,
+            },
+          ],
+          isError: true,
+        };
+      }
       return {
         content: [
           {
             type: "text",
-            text: "<error>No more content available.</error>",
+            text: `${prefix}Contents of ${url} (cache: ${cacheStatus}):\n${rendered.text}`,
           },
         ],
       };
     }
 
-    let truncatedContent = content.slice(start_index, start_index + max_length);
-    if (!truncatedContent) {
+    // Handle pagination
+    const truncatedContent = paginate(content, start_index, max_length, "fetch");
+    if (truncatedContent === null) {
       return {
         content: [
           {
@@ -187,21 +769,11 @@ export async function fetch_url(
       };
     }
 
-    const actualContentLength = truncatedContent.length;
-    const remainingContent =
-      originalLength - (start_index + actualContentLength);
-
-    // Add truncation notice if there's more content
-    if (actualContentLength === max_length && remainingContent > 0) {
-      const nextStart = start_index + actualContentLength;
-      truncatedContent += `\n\n<error>Content truncated. Call the fetch tool with a start_index of ${nextStart} to get more content.</error>`;
-    }
-
     return {
       content: [
         {
           type: "text",
-          text: `${prefix}Contents of ${url}:\n${truncatedContent}`,
+          text: `${prefix}Contents of ${url} (cache: ${cacheStatus}):\n${truncatedContent}`,
         },
       ],
     };
@@ -217,3 +789,701 @@ export async function fetch_url(
     };
   }
 }
+
+
+/**
+ * Send an HTTP request with a custom method, headers and body
+ * Tool function for the fetch-request tool
+ */
+export async function fetch_request(
+  request: HttpRequest,
+  env: Environment,
+): Promise<MCPResult> {
+  try {
+    const {
+      url,
+      method = "GET",
+      headers = {},
+      json,
+      form,
+      body,
+      auth_profile,
+      max_length = 5000,
+      start_index = 0,
+    } = request;
+
+    if (!url || !is_valid_url(url)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid URL: ${url}. URL must be a valid HTTP or HTTPS URL.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const upperMethod = method.toUpperCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(upperMethod)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `method must be one of: ${HTTP_METHODS.join(", ")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const bodies = [json !== undefined, form !== undefined, body !== undefined].filter(Boolean);
+    if (bodies.length > 1) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Specify only one of json, form or body",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (bodies.length > 0 && (upperMethod === "GET" || upperMethod === "HEAD")) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `${upperMethod} requests cannot have a body`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (max_length <= 0 || max_length > 1000000 || start_index < 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "max_length must be between 1 and 1000000 and start_index must be non-negative",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const requestHeaders = new Headers({
+      "User-Agent": env.USER_AGENT || DEFAULT_USER_AGENT,
+      ...headers,
+    });
+
+    let requestBody: string | undefined;
+    if (json !== undefined) {
+      requestBody = JSON.stringify(json);
+      if (!requestHeaders.has("Content-Type")) {
+        requestHeaders.set("Content-Type", "application/json");
+      }
+    } else if (form !== undefined) {
+      requestBody = new URLSearchParams(form).toString();
+      if (!requestHeaders.has("Content-Type")) {
+        requestHeaders.set("Content-Type", "application/x-www-form-urlencoded");
+      }
+    } else if (body !== undefined) {
+      requestBody = body;
+    }
+
+    // Credentials come from the AUTH_PROFILES secret and are applied last
+    const credentialHeaders: string[] = [];
+    if (auth_profile) {
+      try {
+        const credentials = authHeaders(
+          parseAuthProfiles(env.AUTH_PROFILES),
+          auth_profile,
+          new URL(url),
+        );
+        for (const [name, value] of Object.entries(credentials)) {
+          requestHeaders.set(name, value);
+          credentialHeaders.push(name);
+        }
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: error instanceof Error ? error.message : String(error),
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    const configuredInterval = Number(env.MIN_REQUEST_INTERVAL_MS);
+    const minInterval = Number.isFinite(configuredInterval) && env.MIN_REQUEST_INTERVAL_MS
+      ? Math.max(0, configuredInterval)
+      : DEFAULT_MIN_REQUEST_INTERVAL_MS;
+
+    let response: Response;
+    let finalUrl: string;
+    try {
+      const result = await guarded_fetch(
+        url,
+        {
+          method: upperMethod,
+          headers: requestHeaders,
+          body: requestBody,
+        },
+        env,
+        minInterval,
+        credentialHeaders,
+      );
+      if ("blocked" in result) {
+        return blocked_result(result.blocked, result.url);
+      }
+      response = result.response;
+      finalUrl = result.url;
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to send ${upperMethod} ${url}: ${error instanceof Error ? error.message : String(error)}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const responseHeaders = Array.from(response.headers.entries())
+      .map(([name, value]) => `${name}: ${value}`)
+      .join("\n");
+    const head = `${upperMethod} ${finalUrl}\nHTTP ${response.status} ${response.statusText}\n${responseHeaders}`;
+
+    let responseBody = upperMethod === "HEAD" ? "" : await response.text();
+    const contentType = response.headers.get("content-type") || "";
+    if (responseBody && (contentType.includes("json") || contentType.endsWith("+json"))) {
+      try {
+        responseBody = JSON.stringify(JSON.parse(responseBody), null, 2);
+      } catch {
+        // Leave malformed JSON as sent by the server
+      }
+    }
+
+    let text = head;
+    if (responseBody) {
+      const truncatedBody = paginate(responseBody, start_index, max_length, "fetch-request");
+      text += `\n\n${truncatedBody ?? "<error>No more content available.</error>"}`;
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text,
+        },
+      ],
+      isError: !response.ok,
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to send request: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+
+/**
+ * Fetch a page and return its metadata and outbound links without the body
+ * Tool function for the fetch-metadata tool
+ */
+export async function fetch_metadata(
+  request: MetadataRequest,
+  env: Environment,
+): Promise<MCPResult> {
+  try {
+    const { url, same_origin = false, link_pattern, max_links = 200 } = request;
+
+    if (!url || !is_valid_url(url)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid URL: ${url}. URL must be a valid HTTP or HTTPS URL.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (max_links < 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "max_links must be non-negative",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (link_pattern) {
+      try {
+        new RegExp(link_pattern);
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Invalid link_pattern: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    const fetched = await fetch_page(url, env);
+    if ("content" in fetched) {
+      return fetched;
+    }
+    const { response, url: finalUrl } = fetched;
+
+    if (!response.ok) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Failed to fetch ${url} - status code ${response.status}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const body = new Uint8Array(await response.arrayBuffer());
+    const contentType = response.headers.get("content-type") || "";
+    if (detectContentKind(contentType, finalUrl, body) !== "html") {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Metadata can only be extracted from HTML pages, but ${finalUrl} returned content type ${contentType}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const metadata = extractMetadata(new TextDecoder().decode(body), finalUrl, {
+      same_origin,
+      link_pattern,
+      max_links,
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(metadata, null, 2),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to fetch metadata: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+
+/**
+ * One-line reason for a page the crawl could not fetch
+ * Structured errors contribute their message, plain errors their text
+ */
+function failure_reason(result: MCPResult): string {
+  const text = result.content[0]?.text ?? "unknown error";
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed.message === "string") {
+      return parsed.message;
+    }
+  } catch {
+    // Not a structured error
+  }
+  return text;
+}
+
+/**
+ * Collect page URLs from a sitemap, following nested sitemap indexes
+ * Returns an error result when the start URL is not a sitemap
+ */
+async function collect_sitemap(
+  url: string,
+  env: Environment,
+  skipped: SkippedPage[],
+): Promise<string[] | MCPResult> {
+  const pages: string[] = [];
+  const queue = [url];
+  const seen = new Set(queue);
+
+  for (let count = 0; queue.length > 0 && count < MAX_SITEMAPS; count++) {
+    const sitemapUrl = queue.shift()!;
+    const fetched = await fetch_page(sitemapUrl, env);
+    if ("content" in fetched) {
+      if (sitemapUrl === url) {
+        return fetched;
+      }
+      skipped.push({ url: sitemapUrl, reason: failure_reason(fetched) });
+      continue;
+    }
+
+    const { response } = fetched;
+    if (!response.ok) {
+      await response.body?.cancel();
+      if (sitemapUrl === url) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Failed to fetch sitemap ${url} - status code ${response.status}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      skipped.push({ url: sitemapUrl, reason: `status code ${response.status}` });
+      continue;
+    }
+
+    const sitemap = parseSitemap(await response.text());
+    if (!sitemap) {
+      if (sitemapUrl === url) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `${url} is not a sitemap: expected a <urlset> or <sitemapindex> document`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      skipped.push({ url: sitemapUrl, reason: "not a sitemap" });
+      continue;
+    }
+
+    pages.push(...sitemap.pages);
+    for (const nested of sitemap.sitemaps) {
+      if (is_valid_url(nested) && !seen.has(nested)) {
+        seen.add(nested);
+        queue.push(nested);
+      }
+    }
+  }
+
+  for (const sitemapUrl of queue) {
+    skipped.push({ url: sitemapUrl, reason: `more than ${MAX_SITEMAPS} sitemaps` });
+  }
+  return pages;
+}
+
+/**
+ * Crawl a site from a start page or sitemap, following same-origin links
+ * Tool function for the crawl tool
+ */
+export async function crawl(
+  request: CrawlRequest,
+  env: Environment,
+): Promise<MCPResult> {
+  try {
+    const {
+      url,
+      max_depth = 2,
+      max_pages = 20,
+      include = [],
+      exclude = [],
+      extract = "article",
+    } = request;
+
+    if (!url || !is_valid_url(url)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Invalid URL: ${url}. URL must be a valid HTTP or HTTPS URL.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (max_depth < 0 || max_depth > MAX_CRAWL_DEPTH || max_pages <= 0 || max_pages > MAX_CRAWL_PAGES) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `max_depth must be between 0 and ${MAX_CRAWL_DEPTH} and max_pages must be between 1 and ${MAX_CRAWL_PAGES}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (!EXTRACT_MODES.includes(extract)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `extract must be one of: ${EXTRACT_MODES.join(", ")}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const includeGlobs = include.map(globToRegExp);
+    const excludeGlobs = exclude.map(globToRegExp);
+    const origin = new URL(url).origin;
+
+    const pages: CrawledPage[] = [];
+    const skipped: SkippedPage[] = [];
+    const queue: { url: string; depth: number }[] = [];
+    const seen = new Set<string>();
+
+    const enqueue = (target: string, depth: number) => {
+      const normalized = new URL(target);
+      normalized.hash = "";
+      const key = normalized.toString();
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push({ url: key, depth });
+      }
+    };
+
+    // A sitemap seeds the crawl with its listed pages instead of a single start page
+    if (/\.xml$/i.test(new URL(url).pathname)) {
+      const listed = await collect_sitemap(url, env, skipped);
+      if (!Array.isArray(listed)) {
+        return listed;
+      }
+      for (const pageUrl of listed) {
+        if (is_valid_url(pageUrl) && new URL(pageUrl).origin === origin && matchesGlobs(pageUrl, includeGlobs, excludeGlobs)) {
+          enqueue(pageUrl, 0);
+        }
+      }
+    } else {
+      enqueue(url, 0);
+    }
+
+    while (queue.length > 0 && pages.length < max_pages) {
+      const { url: pageUrl, depth } = queue.shift()!;
+
+      const fetched = await fetch_page(pageUrl, env);
+      if ("content" in fetched) {
+        skipped.push({ url: pageUrl, reason: failure_reason(fetched) });
+        continue;
+      }
+      const { response, url: finalUrl } = fetched;
+
+      if (!response.ok) {
+        await response.body?.cancel();
+        skipped.push({ url: pageUrl, reason: `status code ${response.status}` });
+        continue;
+      }
+
+      // Redirects may leave the site or land on a page already queued
+      if (new URL(finalUrl).origin !== origin) {
+        await response.body?.cancel();
+        skipped.push({ url: pageUrl, reason: `redirected to another origin (${finalUrl})` });
+        continue;
+      }
+      if (finalUrl !== pageUrl && seen.has(finalUrl)) {
+        await response.body?.cancel();
+        skipped.push({ url: pageUrl, reason: `redirected to ${finalUrl}, which is already crawled or queued` });
+        continue;
+      }
+      seen.add(finalUrl);
+
+      let converted: ConvertedPage;
+      let body: Uint8Array;
+      try {
+        converted = await convertResponse(finalUrl, response.clone(), { url: finalUrl, extract });
+        body = new Uint8Array(await response.arrayBuffer());
+      } catch (error) {
+        skipped.push({
+          url: pageUrl,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+        continue;
+      }
+
+      let title: string | undefined;
+      const contentType = response.headers.get("content-type") || "";
+      if (detectContentKind(contentType, finalUrl, body) === "html") {
+        const metadata = extractMetadata(new TextDecoder().decode(body), finalUrl, {
+          same_origin: true,
+          max_links: Infinity,
+        });
+        title = metadata.title;
+
+        if (depth < max_depth) {
+          for (const link of metadata.links) {
+            if (matchesGlobs(link.url, includeGlobs, excludeGlobs)) {
+              enqueue(link.url, depth + 1);
+            }
+          }
+        }
+      }
+
+      pages.push({
+        url: finalUrl,
+        title,
+        depth,
+        content: `${converted.prefix}${converted.content}`,
+      });
+    }
+
+    if (pages.length === 0) {
+      const reasons = skipped.map((page) => `- ${page.url}: ${page.reason}`).join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Crawl of ${url} fetched no pages${reasons ? `:\n${reasons}` : ""}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const stored = crawlStore.add({ start_url: url, pages, skipped });
+
+    const escapeCell = (value: string) => value.replace(/\|/g, "\\|").replace(/\s+/g, " ");
+    const rows = pages.map(
+      (page, index) =>
+        `| ${index + 1} | ${escapeCell(page.url)} | ${escapeCell(page.title || "")} | ${page.depth} | ${page.content.length} |`,
+    );
+
+    const sections = [
+      `Crawled ${pages.length} ${pages.length === 1 ? "page" : "pages"} from ${url} (crawl_id: ${stored.id})`,
+      ["| # | URL | Title | Depth | Size (chars) |", "|---|-----|-------|-------|--------------|", ...rows].join("\n"),
+    ];
+    if (skipped.length > 0) {
+      sections.push(
+        `Skipped ${skipped.length} ${skipped.length === 1 ? "URL" : "URLs"}:\n${skipped.map((page) => `- ${page.url}: ${page.reason}`).join("\n")}`,
+      );
+    }
+    if (queue.length > 0) {
+      sections.push(
+        `Stopped at max_pages (${max_pages}) with ${queue.length} discovered ${queue.length === 1 ? "URL" : "URLs"} not crawled.`,
+      );
+    }
+    sections.push(
+      `Call the crawl-page tool with crawl_id "${stored.id}" and an index from the table to read a page.`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: sections.join("\n\n"),
+        },
+      ],
+    };
+  } catch (error) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Failed to crawl: ${error instanceof Error ? error.message : String(error)}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Return the markdown of one page from an earlier crawl
+ * Tool function for the crawl-page tool
+ */
+export async function crawl_page(
+  request: CrawlPageRequest,
+  env: Environment,
+): Promise<MCPResult> {
+  const { crawl_id, index, max_length = 5000, start_index = 0 } = request;
+
+  const stored = crawlStore.get(crawl_id);
+  if (!stored) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Unknown crawl_id ${crawl_id}. Only the most recent crawls are kept; run the crawl tool again.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const page = stored.pages[index - 1];
+  if (!Number.isInteger(index) || !page) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `index must be between 1 and ${stored.pages.length} for crawl ${crawl_id}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (max_length <= 0 || max_length > 1000000 || start_index < 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "max_length must be between 1 and 1000000 and start_index must be non-negative",
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  const truncatedContent = paginate(page.content, start_index, max_length, "crawl-page");
+  if (truncatedContent === null) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "<error>No more content available.</error>",
+        },
+      ],
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: "text",
+        text: `Page ${index} of crawl ${crawl_id}: ${page.url}\n${truncatedContent}`,
+      },
+    ],
+  };
+}
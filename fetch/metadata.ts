@@ -0,0 +1,146 @@
+// Structured page metadata and outbound link extraction for the fetch-metadata tool
+
+import { parseHTML } from "linkedom";
+
+export interface PageLink {
+  url: string;
+  text: string;
+}
+
+export interface PageFeed {
+  url: string;
+  type: string;
+  title?: string;
+}
+
+export interface PageMetadata {
+  url: string;
+  title?: string;
+  canonical_url?: string;
+  description?: string;
+  language?: string;
+  open_graph: Record<string, string>;
+  twitter: Record<string, string>;
+  json_ld: unknown[];
+  feeds: PageFeed[];
+  links: PageLink[];
+  total_links: number;
+}
+
+export interface LinkFilter {
+  same_origin?: boolean;
+  link_pattern?: string;
+  max_links?: number;
+}
+
+const FEED_TYPES = new Set([
+  "application/rss+xml",
+  "application/atom+xml",
+  "application/feed+json",
+  "application/json",
+]);
+
+/**
+ * Resolve an href against the page URL, keeping only http(s) links without fragments
+ */
+function resolveLink(href: string | null, base: string): string | null {
+  if (!href) {
+    return null;
+  }
+  try {
+    const url = new URL(href.trim(), base);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return null;
+    }
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Collect meta tags whose property or name starts with a prefix, e.g. og: or twitter:
+ */
+function prefixedMeta(document: Document, prefix: string): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const meta of Array.from(document.querySelectorAll("meta"))) {
+    const key = meta.getAttribute("property") || meta.getAttribute("name") || "";
+    const content = meta.getAttribute("content");
+    const name = key.slice(prefix.length);
+    if (key.toLowerCase().startsWith(prefix) && content && !(name in values)) {
+      values[name] = content.trim();
+    }
+  }
+  return values;
+}
+
+/**
+ * Extract title, canonical URL, social cards, JSON-LD, feeds and links from an HTML page
+ */
+export function extractMetadata(html: string, pageUrl: string, filter: LinkFilter = {}): PageMetadata {
+  const { document } = parseHTML(html);
+  const { same_origin = false, link_pattern, max_links = 200 } = filter;
+
+  const base = resolveLink(document.querySelector("base[href]")?.getAttribute("href") ?? null, pageUrl) ?? pageUrl;
+  const origin = new URL(pageUrl).origin;
+  const pattern = link_pattern ? new RegExp(link_pattern) : null;
+
+  const jsonLd: unknown[] = [];
+  for (const script of Array.from(document.querySelectorAll('script[type="application/ld+json"]'))) {
+    try {
+      jsonLd.push(JSON.parse(script.textContent || ""));
+    } catch {
+      // Skip malformed JSON-LD blocks rather than failing the whole page
+    }
+  }
+
+  const feeds: PageFeed[] = [];
+  for (const link of Array.from(document.querySelectorAll('link[rel~="alternate"][type]'))) {
+    const type = (link.getAttribute("type") || "").toLowerCase();
+    const url = resolveLink(link.getAttribute("href"), base);
+    if (url && FEED_TYPES.has(type)) {
+      feeds.push({ url, type, title: link.getAttribute("title") || undefined });
+    }
+  }
+
+  // De-duplicate links, keeping the first non-empty anchor text for each URL
+  const linkTexts = new Map<string, string>();
+  for (const anchor of Array.from(document.querySelectorAll("a[href]"))) {
+    const url = resolveLink(anchor.getAttribute("href"), base);
+    if (!url) {
+      continue;
+    }
+    if (same_origin && new URL(url).origin !== origin) {
+      continue;
+    }
+    if (pattern && !pattern.test(url)) {
+      continue;
+    }
+
+    const text = (anchor.textContent || anchor.getAttribute("title") || anchor.getAttribute("aria-label") || "")
+      .replace(/\s+/g, " ")
+      .trim();
+    if (!linkTexts.get(url)) {
+      linkTexts.set(url, text);
+    }
+  }
+  const links = Array.from(linkTexts, ([url, text]) => ({ url, text }));
+
+  const description =
+    document.querySelector('meta[name="description"]')?.getAttribute("content")?.trim() || undefined;
+
+  return {
+    url: pageUrl,
+    title: document.title?.trim() || undefined,
+    canonical_url: resolveLink(document.querySelector('link[rel~="canonical"]')?.getAttribute("href") ?? null, base) ?? undefined,
+    description,
+    language: document.documentElement?.getAttribute("lang") || undefined,
+    open_graph: prefixedMeta(document, "og:"),
+    twitter: prefixedMeta(document, "twitter:"),
+    json_ld: jsonLd,
+    feeds,
+    links: links.slice(0, max_links),
+    total_links: links.length,
+  };
+}
@@ -0,0 +1,246 @@
+// robots.txt compliance and per-host request throttling for the fetch plugin
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay?: number;
+}
+
+interface RobotsPolicy {
+  groups: RobotsGroup[];
+  // Why robots.txt could not be retrieved; everything is disallowed until it is retried
+  unreachable?: string;
+  fetchedAt: number;
+}
+
+export interface RobotsVerdict {
+  allowed: boolean;
+  robotsUrl: string;
+  rule?: string;
+  crawlDelay?: number;
+}
+
+// How long a fetched robots.txt is trusted before it is fetched again
+const ROBOTS_TTL_MS = 60 * 60 * 1000;
+
+// Network errors and server errors are temporary, so an unreachable robots.txt is retried sooner
+const ROBOTS_RETRY_MS = 60 * 1000;
+
+// Fetches robots.txt through the caller's SSRF guard; null when the guard refused a hop
+export type RobotsFetcher = (robotsUrl: string) => Promise<Response | null>;
+
+/**
+ * Parse a robots.txt file into user-agent groups
+ */
+export function parseRobots(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { userAgents: [], rules: [] };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) {
+      continue;
+    }
+
+    if (field === "allow" || field === "disallow") {
+      // An empty disallow means everything is allowed, which is the default
+      if (value) {
+        current.rules.push({ allow: field === "allow", pattern: value });
+      }
+    } else if (field === "crawl-delay") {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = delay;
+      }
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Match a URL path against a robots.txt pattern supporting * and $
+ */
+function matchesPattern(path: string, pattern: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = body
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Pick the group for a user agent: the most specific named match, else *
+ */
+function selectGroups(groups: RobotsGroup[], userAgent: string): RobotsGroup[] {
+  const product = userAgent.split(/[\s/]/)[0].toLowerCase();
+
+  let bestLength = 0;
+  let matched: RobotsGroup[] = [];
+  for (const group of groups) {
+    for (const agent of group.userAgents) {
+      if (agent !== "*" && product.includes(agent) && agent.length >= bestLength) {
+        if (agent.length > bestLength) {
+          matched = [];
+          bestLength = agent.length;
+        }
+        matched.push(group);
+      }
+    }
+  }
+
+  if (matched.length > 0) {
+    return matched;
+  }
+  return groups.filter((group) => group.userAgents.includes("*"));
+}
+
+/**
+ * Evaluate Allow/Disallow rules for a path; the longest match wins and Allow wins ties
+ */
+export function evaluateRobots(
+  groups: RobotsGroup[],
+  userAgent: string,
+  path: string,
+): { allowed: boolean; rule?: string; crawlDelay?: number } {
+  const applicable = selectGroups(groups, userAgent);
+
+  let best: RobotsRule | null = null;
+  let crawlDelay: number | undefined;
+  for (const group of applicable) {
+    if (group.crawlDelay !== undefined) {
+      crawlDelay = Math.max(crawlDelay ?? 0, group.crawlDelay);
+    }
+    for (const rule of group.rules) {
+      if (!matchesPattern(path, rule.pattern)) {
+        continue;
+      }
+      if (
+        !best ||
+        rule.pattern.length > best.pattern.length ||
+        (rule.pattern.length === best.pattern.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+  }
+
+  if (!best) {
+    return { allowed: true, crawlDelay };
+  }
+  return {
+    allowed: best.allow,
+    rule: `${best.allow ? "Allow" : "Disallow"}: ${best.pattern}`,
+    crawlDelay,
+  };
+}
+
+// Per-origin robots.txt cache
+class RobotsCache {
+  private policies = new Map<string, RobotsPolicy>();
+
+  private async load(origin: string, fetchRobots: RobotsFetcher): Promise<RobotsPolicy> {
+    const cached = this.policies.get(origin);
+    if (cached && Date.now() - cached.fetchedAt < (cached.unreachable ? ROBOTS_RETRY_MS : ROBOTS_TTL_MS)) {
+      return cached;
+    }
+
+    let policy: RobotsPolicy;
+    try {
+      const response = await fetchRobots(`${origin}/robots.txt`);
+      if (!response) {
+        policy = { groups: [], unreachable: "redirected to a blocked address", fetchedAt: Date.now() };
+      } else if (response.ok) {
+        policy = { groups: parseRobots(await response.text()), fetchedAt: Date.now() };
+      } else if (response.status >= 400 && response.status < 500) {
+        // A missing robots.txt places no restrictions
+        await response.body?.cancel();
+        policy = { groups: [], fetchedAt: Date.now() };
+      } else {
+        await response.body?.cancel();
+        policy = { groups: [], unreachable: `server error ${response.status}`, fetchedAt: Date.now() };
+      }
+    } catch (error) {
+      policy = {
+        groups: [],
+        unreachable: error instanceof Error ? error.message : String(error),
+        fetchedAt: Date.now(),
+      };
+    }
+
+    this.policies.set(origin, policy);
+    return policy;
+  }
+
+  /**
+   * Check whether a URL may be fetched by the given user agent
+   */
+  async check(url: URL, userAgent: string, fetchRobots: RobotsFetcher): Promise<RobotsVerdict> {
+    const robotsUrl = `${url.origin}/robots.txt`;
+    if (url.pathname === "/robots.txt") {
+      return { allowed: true, robotsUrl };
+    }
+
+    const policy = await this.load(url.origin, fetchRobots);
+    if (policy.unreachable) {
+      return {
+        allowed: false,
+        robotsUrl,
+        rule: `robots.txt unreachable (${policy.unreachable}); retried after ${ROBOTS_RETRY_MS / 1000} seconds`,
+      };
+    }
+
+    const verdict = evaluateRobots(policy.groups, userAgent, `${url.pathname}${url.search}`);
+    return { ...verdict, robotsUrl };
+  }
+}
+
+export const robotsCache = new RobotsCache();
+
+// Per-host rate limiter enforcing a minimum interval between requests
+class HostRateLimiter {
+  private lastRequestTimes = new Map<string, number>();
+
+  async fetch(url: string, minInterval: number, options?: RequestInit): Promise<Response> {
+    const host = new URL(url).host;
+    const lastRequestTime = this.lastRequestTimes.get(host) ?? 0;
+    const timeSinceLastRequest = Date.now() - lastRequestTime;
+
+    if (timeSinceLastRequest < minInterval) {
+      await new Promise((resolve) => setTimeout(resolve, minInterval - timeSinceLastRequest));
+    }
+
+    this.lastRequestTimes.set(host, Date.now());
+    return fetch(url, options);
+  }
+}
+
+export const hostRateLimiter = new HostRateLimiter();
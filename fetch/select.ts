@@ -0,0 +1,117 @@
+// Targeted extraction of page fragments by CSS selector or XPath expression
+
+import { parseHTML } from "linkedom";
+import xpath from "xpath";
+
+export interface SelectedNode {
+  path: string;
+  html: string;
+  text?: string;
+}
+
+// parse() is not part of xpath's bundled typings, but it is the only entry
+// point that accepts isHtml, which linkedom's namespaced elements require
+const { parse: parseXPath } = xpath as unknown as {
+  parse(expression: string): {
+    evaluate(options: { node: Node; isHtml: boolean }): XPathValue;
+  };
+};
+
+// Result of an xpath evaluation: a node-set or a string, number or boolean
+interface XPathValue {
+  toArray?: () => Node[];
+  stringValue(): string;
+}
+
+/**
+ * Build an absolute XPath-style location for a node, e.g. /html/body/main/pre[2]
+ */
+export function nodePath(node: Node): string {
+  if (node.nodeType === 2) {
+    const attr = node as Attr;
+    const owner = attr.ownerElement;
+    return `${owner ? nodePath(owner) : ""}/@${attr.name}`;
+  }
+
+  if (node.nodeType !== 1) {
+    const parent = node.parentNode;
+    return `${parent ? nodePath(parent) : ""}/text()`;
+  }
+
+  const segments: string[] = [];
+  let current: Element | null = node as Element;
+  while (current) {
+    const tag = current.tagName.toLowerCase();
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter(
+        (sibling) => sibling.tagName === current!.tagName,
+      );
+      segments.unshift(
+        sameTag.length > 1 ? `${tag}[${sameTag.indexOf(current) + 1}]` : tag,
+      );
+    } else {
+      segments.unshift(tag);
+    }
+    current = parent;
+  }
+  return `/${segments.join("/")}`;
+}
+
+/**
+ * Convert a matched node into a fragment, keeping markup only for elements
+ */
+function toSelectedNode(node: Node): SelectedNode {
+  const path = nodePath(node);
+  if (node.nodeType === 1) {
+    return { path, html: (node as Element).outerHTML };
+  }
+  if (node.nodeType === 2) {
+    const attr = node as Attr;
+    return { path, html: "", text: `${attr.name}="${attr.value}"` };
+  }
+  return { path, html: "", text: (node.textContent || "").trim() };
+}
+
+/**
+ * Select nodes of an HTML document by CSS selector
+ */
+export function selectByCss(html: string, selector: string): SelectedNode[] {
+  const { document } = parseHTML(html);
+
+  let matches: Element[];
+  try {
+    matches = Array.from(document.querySelectorAll(selector));
+  } catch (error) {
+    throw new Error(
+      `Invalid CSS selector "${selector}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  return matches.map(toSelectedNode);
+}
+
+/**
+ * Select nodes of an HTML document by XPath expression
+ * Expressions that evaluate to a string, number or boolean return a single text match
+ */
+export function selectByXPath(html: string, expression: string): SelectedNode[] {
+  // linkedom leaves the doctype node without a nextSibling, which hides the
+  // rest of the document from xpath's child axis and breaks absolute paths
+  const { document } = parseHTML(html.replace(/<!doctype[^>]*>/i, ""));
+
+  let result: XPathValue;
+  try {
+    result = parseXPath(expression).evaluate({ node: document, isHtml: true });
+  } catch (error) {
+    throw new Error(
+      `Invalid XPath expression "${expression}": ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (result.toArray) {
+    return result.toArray().map(toSelectedNode);
+  }
+
+  return [{ path: expression, html: "", text: result.stringValue() }];
+}
@@ -0,0 +1,224 @@
+// SSRF guard for the fetch plugin
+// Resolves hostnames and refuses loopback, private, link-local and cloud metadata addresses
+
+interface IpAddress {
+  version: 4 | 6;
+  value: bigint;
+}
+
+interface BlockedRange {
+  cidr: string;
+  rule: string;
+}
+
+export interface AddressVerdict {
+  allowed: boolean;
+  host: string;
+  address?: string;
+  rule?: string;
+}
+
+// Checked in order, so metadata endpoints are reported before their enclosing range
+const BLOCKED_RANGES: BlockedRange[] = [
+  { cidr: "169.254.169.254/32", rule: "cloud metadata endpoint" },
+  { cidr: "169.254.170.2/32", rule: "cloud metadata endpoint (ECS task)" },
+  { cidr: "100.100.100.200/32", rule: "cloud metadata endpoint (Alibaba)" },
+  { cidr: "fd00:ec2::254/128", rule: "cloud metadata endpoint (AWS IPv6)" },
+  { cidr: "0.0.0.0/8", rule: "unspecified address (0.0.0.0/8)" },
+  { cidr: "10.0.0.0/8", rule: "private network (10.0.0.0/8)" },
+  { cidr: "100.64.0.0/10", rule: "shared address space (100.64.0.0/10)" },
+  { cidr: "127.0.0.0/8", rule: "loopback (127.0.0.0/8)" },
+  { cidr: "169.254.0.0/16", rule: "link-local (169.254.0.0/16)" },
+  { cidr: "172.16.0.0/12", rule: "private network (172.16.0.0/12)" },
+  { cidr: "192.0.0.0/24", rule: "IETF protocol assignments (192.0.0.0/24)" },
+  { cidr: "192.168.0.0/16", rule: "private network (192.168.0.0/16)" },
+  { cidr: "198.18.0.0/15", rule: "benchmarking network (198.18.0.0/15)" },
+  { cidr: "224.0.0.0/4", rule: "multicast (224.0.0.0/4)" },
+  { cidr: "240.0.0.0/4", rule: "reserved (240.0.0.0/4)" },
+  { cidr: "::/128", rule: "unspecified address (::)" },
+  { cidr: "::1/128", rule: "loopback (::1)" },
+  { cidr: "fc00::/7", rule: "unique local address (fc00::/7)" },
+  { cidr: "fe80::/10", rule: "link-local (fe80::/10)" },
+  { cidr: "ff00::/8", rule: "multicast (ff00::/8)" },
+];
+
+// Hostnames that always point at internal services
+const BLOCKED_HOSTNAMES: { pattern: RegExp; rule: string }[] = [
+  { pattern: /^localhost$|\.localhost$/, rule: "loopback (localhost)" },
+  { pattern: /^metadata\.google\.internal$|^metadata$/, rule: "cloud metadata endpoint" },
+];
+
+/**
+ * Parse an IPv4 or IPv6 literal, returning null for hostnames
+ */
+function parseIp(input: string): IpAddress | null {
+  const text = input.replace(/^\[|\]$/g, "");
+
+  const v4 = text.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const octets = v4.slice(1).map(Number);
+    if (octets.some((octet) => octet > 255)) {
+      return null;
+    }
+    return {
+      version: 4,
+      value: octets.reduce((acc, octet) => (acc << 8n) | BigInt(octet), 0n),
+    };
+  }
+
+  if (!text.includes(":")) {
+    return null;
+  }
+
+  // Expand an embedded dotted IPv4 tail into two hextets
+  let address = text.split("%")[0];
+  const tail = address.match(/(\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3})$/);
+  if (tail) {
+    const embedded = parseIp(tail[1]);
+    if (!embedded) {
+      return null;
+    }
+    const high = Number(embedded.value >> 16n).toString(16);
+    const low = Number(embedded.value & 0xffffn).toString(16);
+    address = `${address.slice(0, -tail[1].length)}${high}:${low}`;
+  }
+
+  const halves = address.split("::");
+  if (halves.length > 2) {
+    return null;
+  }
+  const head = halves[0] ? halves[0].split(":") : [];
+  const rest = halves.length === 2 && halves[1] ? halves[1].split(":") : [];
+  const missing = 8 - head.length - rest.length;
+  if ((halves.length === 1 && missing !== 0) || missing < 0) {
+    return null;
+  }
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...rest];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) {
+    return null;
+  }
+
+  return {
+    version: 6,
+    value: groups.reduce((acc, group) => (acc << 16n) | BigInt(parseInt(group, 16)), 0n),
+  };
+}
+
+/**
+ * Unwrap IPv4-mapped (::ffff:a.b.c.d) and NAT64 (64:ff9b::a.b.c.d) IPv6 addresses
+ */
+function embeddedIpv4(ip: IpAddress): IpAddress | null {
+  if (ip.version !== 6) {
+    return null;
+  }
+  const prefix = ip.value >> 32n;
+  if (prefix === 0xffffn || prefix === 0x64ff9b0000000000000000n) {
+    return { version: 4, value: ip.value & 0xffffffffn };
+  }
+  return null;
+}
+
+/**
+ * Whether an address falls inside a CIDR range
+ */
+function inCidr(ip: IpAddress, cidr: string): boolean {
+  const [base, prefixText] = cidr.split("/");
+  const network = parseIp(base);
+  if (!network || network.version !== ip.version) {
+    return false;
+  }
+
+  const bits = ip.version === 4 ? 32 : 128;
+  const prefix = prefixText === undefined ? bits : Number(prefixText);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > bits) {
+    return false;
+  }
+
+  const shift = BigInt(bits - prefix);
+  return ip.value >> shift === network.value >> shift;
+}
+
+/**
+ * Name the blocking rule an address falls under, if any
+ */
+function blockedRule(ip: IpAddress): string | undefined {
+  const mapped = embeddedIpv4(ip);
+  if (mapped) {
+    return blockedRule(mapped);
+  }
+  return BLOCKED_RANGES.find((range) => inCidr(ip, range.cidr))?.rule;
+}
+
+/**
+ * Parse the allowlist setting: comma-separated hostnames, *.suffix patterns, IPs and CIDRs
+ */
+export function parseAllowlist(setting: string | undefined): string[] {
+  return (setting || "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function hostAllowlisted(host: string, allowlist: string[]): boolean {
+  return allowlist.some((entry) =>
+    entry.startsWith("*.") ? host.endsWith(entry.slice(1)) : host === entry,
+  );
+}
+
+function addressAllowlisted(ip: IpAddress, allowlist: string[]): boolean {
+  return allowlist.some((entry) => inCidr(ip, entry));
+}
+
+/**
+ * Resolve a hostname to its A and AAAA addresses
+ */
+async function resolveHost(host: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(host, "A"),
+    Deno.resolveDns(host, "AAAA"),
+  ]);
+  const addresses = lookups.flatMap((lookup) =>
+    lookup.status === "fulfilled" ? lookup.value : [],
+  );
+  if (addresses.length === 0) {
+    const failure = lookups.find((lookup) => lookup.status === "rejected");
+    throw new Error(
+      `Could not resolve ${host}${failure && failure.status === "rejected" ? `: ${failure.reason}` : ""}`,
+    );
+  }
+  return addresses;
+}
+
+/**
+ * Check that a URL's host does not resolve to a blocked address
+ * Every resolved address must pass, so a host cannot mix public and private records
+ */
+export async function checkAddress(url: URL, allowlist: string[]): Promise<AddressVerdict> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (hostAllowlisted(host, allowlist)) {
+    return { allowed: true, host };
+  }
+
+  const literal = parseIp(host);
+  if (!literal) {
+    const named = BLOCKED_HOSTNAMES.find((entry) => entry.pattern.test(host));
+    if (named) {
+      return { allowed: false, host, rule: named.rule };
+    }
+  }
+
+  const addresses = literal ? [host] : await resolveHost(host);
+  for (const address of addresses) {
+    const ip = parseIp(address);
+    if (!ip) {
+      continue;
+    }
+    const rule = blockedRule(ip);
+    if (rule && !addressAllowlisted(ip, allowlist)) {
+      return { allowed: false, host, address, rule };
+    }
+  }
+
+  return { allowed: true, host };
+}
@@ -12,9 +12,43 @@ interface MCPResult {
 	isError?: boolean;
 }
 
+// Environment interface for accessing configuration
+interface Environment {
+	ALLOWED_DIRECTORIES?: string;
+	HISTORY_DIRECTORY?: string;
+}
+
+// Files larger than this are skipped by grep_files
+const MAX_GREP_FILE_SIZE = 10 * 1024 * 1024;
+
+// Oldest change history entries and their snapshots are pruned beyond this many
+const MAX_HISTORY_ENTRIES = 500;
+
+// Chunk size for streaming reads, and the byte range read_text_file returns when byteLength is omitted
+const READ_CHUNK_SIZE = 64 * 1024;
+const DEFAULT_BYTE_RANGE = 64 * 1024;
+
+// Byte range reads and archive entry reads are buffered whole, so longer byteLength values
+// are clamped to this and larger archive entries are refused
+const MAX_BYTE_RANGE = 10 * 1024 * 1024;
+
+// Archives are processed in memory, so larger archives and contents are refused
+const MAX_ARCHIVE_SIZE = 512 * 1024 * 1024;
+const MAX_EXTRACTED_SIZE = 1024 * 1024 * 1024;
+
+// directory_tree stops listing after this many entries unless maxEntries is given
+const DEFAULT_TREE_ENTRIES = 1000;
+
+// Dry-run listings of delete_path show at most this many paths
+const MAX_DELETE_LISTING = 200;
+
 interface TreeEntry {
 	name: string;
-	type: 'file' | 'directory';
+	// A truncated entry stands in for omitted entries of its directory
+	type: 'file' | 'directory' | 'truncated';
+	size?: number;
+	mtime?: string;
+	omitted?: number;
 	children?: TreeEntry[];
 }
 
@@ -68,29 +102,482 @@ function createUnifiedDiff(originalContent: string, newContent: string, filepath
 	return diffLines.join('\n');
 }
 
+// Path sandbox
+// Every tool resolves its paths here: paths are made absolute, . and .. segments are
+// collapsed, symlinks are resolved, and the result must stay inside an allowed directory
+
+function normalizePath(path: string): string {
+	let absolute = path;
+	if (absolute === '~' || absolute.startsWith('~/')) {
+		absolute = `${Deno.env.get('HOME') || ''}${absolute.slice(1)}`;
+	}
+	if (!absolute.startsWith('/')) {
+		absolute = `${Deno.cwd()}/${absolute}`;
+	}
+
+	const segments: string[] = [];
+	for (const segment of absolute.split('/')) {
+		if (!segment || segment === '.') continue;
+		if (segment === '..') {
+			segments.pop();
+		} else {
+			segments.push(segment);
+		}
+	}
+	return `/${segments.join('/')}`;
+}
+
+function isWithin(path: string, directories: string[]): boolean {
+	return directories.some(directory =>
+		path === directory || path.startsWith(directory === '/' ? '/' : `${directory}/`)
+	);
+}
+
+function accessDenied(path: string): Error {
+	return new Error(`Access denied: outside allowed directories (${path})`);
+}
+
+// ALLOWED_DIRECTORIES is a comma-separated list, canonicalized so symlinked roots compare correctly
+async function allowedDirectories(env: Environment): Promise<string[]> {
+	const configured = (env.ALLOWED_DIRECTORIES || '')
+		.split(',')
+		.map(directory => directory.trim())
+		.filter(Boolean)
+		.map(normalizePath);
+
+	const directories: string[] = [];
+	for (const directory of configured) {
+		try {
+			directories.push(await Deno.realPath(directory));
+		} catch {
+			directories.push(directory);
+		}
+	}
+	return directories;
+}
+
+// Resolve a requested path to its canonical location inside an allowed directory.
+// The change history directory is off limits so tools cannot rewrite the journal undo relies on.
+async function resolvePath(path: string, env: Environment): Promise<string> {
+	const resolved = await canonicalPath(path, env);
+	if (isWithin(resolved, [await historyDirectory(env)])) {
+		throw new Error(`Access denied: ${path} is inside the change history directory`);
+	}
+	return resolved;
+}
+
+// Paths that do not exist yet are resolved through their nearest existing ancestor.
+async function canonicalPath(path: string, env: Environment): Promise<string> {
+	if (typeof path !== 'string' || !path) {
+		throw new Error("path is required");
+	}
+
+	const directories = await allowedDirectories(env);
+	if (directories.length === 0) {
+		throw new Error("Access denied: no allowed directories are configured. Set ALLOWED_DIRECTORIES to the directories granted to this plugin");
+	}
+
+	const absolute = normalizePath(path);
+	const missing: string[] = [];
+	let existing = absolute;
+	while (true) {
+		try {
+			const real = await Deno.realPath(existing);
+			const resolved = missing.length > 0 ? `${real === '/' ? '' : real}/${missing.join('/')}` : real;
+			if (!isWithin(resolved, directories)) {
+				throw accessDenied(path);
+			}
+			return resolved;
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound) || existing === '/') {
+				throw error;
+			}
+			const separator = existing.lastIndexOf('/');
+			missing.unshift(existing.slice(separator + 1));
+			existing = existing.slice(0, separator) || '/';
+		}
+	}
+}
+
+// Change history
+// write_file, edit_file and move_file snapshot what they are about to replace into the
+// history directory and append an entry to its journal, so undo_file_change can restore it
+interface HistoryEntry {
+	id: number;
+	tool: string;
+	// Where the file lives after the change; for moves, source is where it came from
+	path: string;
+	source?: string;
+	timestamp: string;
+	// Whether snapshots/<id> holds the content path had before the change
+	snapshot: boolean;
+	// SHA-256 of the content written, to detect later changes before undoing
+	afterHash: string | null;
+	diff: string;
+	undoes?: number;
+}
+
+interface PendingChange {
+	id: number;
+	directory: string;
+	path: string;
+	before: Uint8Array | null;
+}
+
+// Where the journal and snapshots live; created by the first recorded change
+async function historyDirectory(env: Environment): Promise<string> {
+	if (env.HISTORY_DIRECTORY) {
+		const directory = await canonicalPath(env.HISTORY_DIRECTORY, env);
+		// Every path inside the history directory is refused, so it cannot be an allowed directory or contain one
+		if ((await allowedDirectories(env)).some(allowed => isWithin(allowed, [directory]))) {
+			throw new Error("HISTORY_DIRECTORY must be a subdirectory of an allowed directory, not an allowed directory or a parent of one");
+		}
+		return directory;
+	}
+	const [first] = await allowedDirectories(env);
+	if (!first) {
+		throw new Error("Access denied: no allowed directories are configured. Set ALLOWED_DIRECTORIES to the directories granted to this plugin");
+	}
+	return `${first === '/' ? '' : first}/.jilebi-history`;
+}
+
+async function readHistory(directory: string): Promise<HistoryEntry[]> {
+	let text: string;
+	try {
+		text = await Deno.readTextFile(`${directory}/journal.jsonl`);
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) return [];
+		throw error;
+	}
+	return text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as HistoryEntry);
+}
+
+// Text content is hashed as the UTF-8 bytes it is written as
+async function contentHash(content: string | Uint8Array | null): Promise<string | null> {
+	if (content === null) return null;
+	const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+	const digest = await crypto.subtle.digest('SHA-256', bytes as BufferSource);
+	return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Snapshots keep the raw bytes, so undoing restores binary files exactly
+async function readIfFile(path: string): Promise<Uint8Array | null> {
+	try {
+		if (!(await Deno.stat(path)).isFile) return null;
+		return await Deno.readFile(path);
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) return null;
+		throw error;
+	}
+}
+
+// Snapshot the current content of path before a tool changes it
+async function beginChange(env: Environment, path: string): Promise<PendingChange> {
+	const directory = await historyDirectory(env);
+	const entries = await readHistory(directory);
+	const id = (entries[entries.length - 1]?.id ?? 0) + 1;
+
+	const before = await readIfFile(path);
+	await Deno.mkdir(`${directory}/snapshots`, { recursive: true });
+	if (before !== null) {
+		await Deno.writeFile(`${directory}/snapshots/${id}`, before);
+	}
+	return { id, directory, path, before };
+}
+
+// Content as text for the journal's diff, or null when it is binary or not valid UTF-8
+function historyText(content: string | Uint8Array | null): string | null {
+	if (content === null) return '';
+	if (typeof content === 'string') return content;
+	if (isBinary(content)) return null;
+	try {
+		return new TextDecoder('utf-8', { fatal: true }).decode(content);
+	} catch {
+		return null;
+	}
+}
+
+// Append the journal entry for a change once the tool has made it
+async function commitChange(change: PendingChange, details: { tool: string, after: string | Uint8Array | null, source?: string, undoes?: number }): Promise<void> {
+	const before = historyText(change.before);
+	const after = historyText(details.after);
+	const entry: HistoryEntry = {
+		id: change.id,
+		tool: details.tool,
+		path: change.path,
+		timestamp: new Date().toISOString(),
+		snapshot: change.before !== null,
+		afterHash: await contentHash(details.after),
+		diff: details.source !== undefined
+			? `moved from ${details.source}`
+			: before !== null && after !== null
+				? createUnifiedDiff(before, after, change.path)
+				: 'binary content changed'
+	};
+	if (details.source !== undefined) entry.source = details.source;
+	if (details.undoes !== undefined) entry.undoes = details.undoes;
+
+	await Deno.writeTextFile(`${change.directory}/journal.jsonl`, `${JSON.stringify(entry)}\n`, { append: true });
+
+	const entries = await readHistory(change.directory);
+	if (entries.length > MAX_HISTORY_ENTRIES) {
+		const pruned = entries.slice(0, entries.length - MAX_HISTORY_ENTRIES);
+		const kept = entries.slice(entries.length - MAX_HISTORY_ENTRIES);
+		await Deno.writeTextFile(`${change.directory}/journal.jsonl`, kept.map(kept => `${JSON.stringify(kept)}\n`).join(''));
+		for (const old of pruned) {
+			if (old.snapshot) {
+				await Deno.remove(`${change.directory}/snapshots/${old.id}`).catch(() => {});
+			}
+		}
+	}
+}
+
+// Glob matching against paths relative to a search root
+// Supports **, *, ?, [...] character classes, {a,b} alternatives and \ escapes
+const globCache = new Map<string, RegExp>();
+
+// Expand {a,b} alternatives, including nested ones, into separate globs
+function expandBraces(glob: string): string[] {
+	let depth = 0;
+	let start = -1;
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '\\') {
+			i++;
+		} else if (char === '{') {
+			if (depth === 0) start = i;
+			depth++;
+		} else if (char === '}' && depth > 0 && --depth === 0) {
+			const body = glob.slice(start + 1, i);
+			const alternatives: string[] = [];
+			let level = 0;
+			let last = 0;
+			for (let j = 0; j < body.length; j++) {
+				const inner = body[j];
+				if (inner === '\\') {
+					j++;
+				} else if (inner === '{') {
+					level++;
+				} else if (inner === '}') {
+					level--;
+				} else if (inner === ',' && level === 0) {
+					alternatives.push(body.slice(last, j));
+					last = j + 1;
+				}
+			}
+			alternatives.push(body.slice(last));
+
+			// A brace group without a comma is literal text
+			if (alternatives.length > 1) {
+				const prefix = glob.slice(0, start);
+				const suffix = glob.slice(i + 1);
+				return alternatives.flatMap(alternative => expandBraces(prefix + alternative + suffix));
+			}
+		}
+	}
+	return [glob];
+}
+
+function globSegmentToRegExp(glob: string): string {
+	let pattern = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i]!;
+		if (char === '\\' && i + 1 < glob.length) {
+			pattern += glob[++i]!.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+		} else if (char === '*' && glob[i + 1] === '*') {
+			if (glob[i + 2] === '/') {
+				// "**/" also matches zero directories
+				pattern += '(?:.*/)?';
+				i += 2;
+			} else {
+				pattern += '.*';
+				i++;
+			}
+		} else if (char === '*') {
+			pattern += '[^/]*';
+		} else if (char === '?') {
+			pattern += '[^/]';
+		} else if (char === '[') {
+			// Character class; a ] straight after [ or [! is a literal member
+			let end = i + 1;
+			if (glob[end] === '!' || glob[end] === '^') end++;
+			if (glob[end] === ']') end++;
+			while (end < glob.length && glob[end] !== ']') end++;
+			if (end >= glob.length) {
+				pattern += '\\[';
+				continue;
+			}
+			let members = glob.slice(i + 1, end);
+			const negated = members.startsWith('!') || members.startsWith('^');
+			if (negated) members = members.slice(1);
+			members = members.replace(/[\\\]]/g, '\\$&');
+			pattern += negated ? `[^/${members}]` : `[${members}]`;
+			i = end;
+		} else {
+			pattern += char.replace(/[.+^${}()|\]\\]/g, '\\$&');
+		}
+	}
+	return pattern;
+}
+
+function globToRegExp(glob: string, ignoreCase: boolean = false): RegExp {
+	const key = `${ignoreCase ? 'i' : 's'}:${glob}`;
+	let regex = globCache.get(key);
+	if (!regex) {
+		// A trailing /** also matches the directory itself
+		const alternatives = expandBraces(glob).map(alternative =>
+			globSegmentToRegExp(alternative).replace(/\/\.\*$/, '(?:/.*)?')
+		);
+		regex = new RegExp(`^(?:${alternatives.join('|')})$`, ignoreCase ? 'i' : '');
+		globCache.set(key, regex);
+	}
+	return regex;
+}
+
+// Patterns without a slash match the entry name at any depth, like .gitignore;
+// a leading slash anchors the pattern to the search root
+function matchesGlob(relativePath: string, glob: string, ignoreCase: boolean = false): boolean {
+	const anchored = glob.replace(/\/$/, '').includes('/');
+	const target = anchored ? relativePath : relativePath.split('/').pop() || '';
+	return globToRegExp(glob.replace(/^\//, '').replace(/\/$/, ''), ignoreCase).test(target);
+}
+
+// Evaluate globs in order, last match wins; a leading ! negates a pattern,
+// so ["*.log", "!keep.log"] matches every log file except keep.log
+function matchesGlobList(relativePath: string, globs: string[], ignoreCase: boolean = false): boolean {
+	let matched = false;
+	for (const glob of globs) {
+		const negated = glob.startsWith('!');
+		if (matchesGlob(relativePath, negated ? glob.slice(1) : glob, ignoreCase)) {
+			matched = !negated;
+		}
+	}
+	return matched;
+}
+
+// .gitignore rules, with base the directory holding the .gitignore relative to the search root
+interface IgnoreRule {
+	base: string;
+	regex: RegExp;
+	negated: boolean;
+	directoryOnly: boolean;
+}
+
+async function readGitignore(directoryPath: string, relativeDir: string): Promise<IgnoreRule[]> {
+	let text: string;
+	try {
+		text = await Deno.readTextFile(`${directoryPath}/.gitignore`);
+	} catch {
+		return [];
+	}
+
+	const rules: IgnoreRule[] = [];
+	for (const rawLine of normalizeLineEndings(text).split('\n')) {
+		let line = rawLine.replace(/(?<!\\)\s+$/, '');
+		if (!line || line.startsWith('#')) continue;
+
+		const negated = line.startsWith('!');
+		if (negated) line = line.slice(1);
+		if (line.startsWith('\\!') || line.startsWith('\\#')) line = line.slice(1);
+
+		const directoryOnly = line.endsWith('/');
+		if (directoryOnly) line = line.slice(0, -1);
+		if (!line) continue;
+
+		// Patterns with an inner slash are relative to the .gitignore, others match at any depth
+		const glob = line.includes('/') ? line.replace(/^\//, '') : `**/${line}`;
+		rules.push({ base: relativeDir, regex: globToRegExp(glob), negated, directoryOnly });
+	}
+	return rules;
+}
+
+// Rules are ordered from the root down, so deeper .gitignore files take precedence
+function isGitignored(relativePath: string, isDirectory: boolean, rules: IgnoreRule[]): boolean {
+	let ignored = false;
+	for (const rule of rules) {
+		if (rule.directoryOnly && !isDirectory) continue;
+		if (rule.base && !relativePath.startsWith(`${rule.base}/`)) continue;
+
+		const target = rule.base ? relativePath.slice(rule.base.length + 1) : relativePath;
+		if (rule.regex.test(target)) {
+			ignored = !rule.negated;
+		}
+	}
+	return ignored;
+}
+
+function isBinary(data: Uint8Array): boolean {
+	return data.subarray(0, 8192).includes(0);
+}
+
 // File reading functions
 export async function read_text_file(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path, head, tail } = request;
+		const { head, tail, offset, limit, byteOffset, byteLength, lineNumbers = false } = request;
+		const path = await resolvePath(request.path, env);
 
-		if (head && tail) {
+		for (const [name, value] of Object.entries({ head, tail, offset, limit })) {
+			if (value !== undefined && (!Number.isInteger(value) || value < 1)) {
+				throw new Error(`${name} must be a positive integer`);
+			}
+		}
+		if (head !== undefined && tail !== undefined) {
 			throw new Error("Cannot specify both head and tail parameters simultaneously");
 		}
+		const linesRequested = head !== undefined || tail !== undefined || offset !== undefined || limit !== undefined;
+		if ((byteOffset !== undefined || byteLength !== undefined) && (linesRequested || lineNumbers)) {
+			throw new Error("Cannot combine byteOffset/byteLength with line-based parameters");
+		}
+		if (tail !== undefined && (offset !== undefined || limit !== undefined)) {
+			throw new Error("Cannot combine tail with offset/limit");
+		}
 
-		let content: string;
-		if (tail) {
-			content = await tailFile(path, tail);
-		} else if (head) {
-			content = await headFile(path, head);
-		} else {
-			content = await Deno.readTextFile(path);
+		if (byteOffset !== undefined || byteLength !== undefined) {
+			if (byteOffset !== undefined && (!Number.isInteger(byteOffset) || byteOffset < 0)) {
+				throw new Error("byteOffset must be a non-negative integer");
+			}
+			if (byteLength !== undefined && (!Number.isInteger(byteLength) || byteLength < 1)) {
+				throw new Error("byteLength must be a positive integer");
+			}
+			const range = await readByteRange(path, byteOffset ?? 0, Math.min(byteLength ?? DEFAULT_BYTE_RANGE, MAX_BYTE_RANGE));
+			const summary = `[Bytes ${range.start}-${range.end} of ${range.size}]`;
+			return {
+				content: [
+					{
+						type: "text",
+						text: range.text ? `${range.text}\n\n${summary}` : summary
+					}
+				]
+			};
+		}
+
+		// Whole-file reads keep returning the plain content
+		if (!linesRequested && !lineNumbers) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: await Deno.readTextFile(path)
+					}
+				]
+			};
 		}
 
+		const range = await readLineRange(path, tail ? { tail } : { from: offset ?? 1, count: limit ?? head ?? Infinity });
+		const end = range.start + range.lines.length - 1;
+		const width = String(end).length;
+		const content = lineNumbers
+			? range.lines.map((line, index) => `${String(range.start + index).padStart(width)}\t${line}`).join('\n')
+			: range.lines.join('\n');
+		const summary = range.lines.length > 0
+			? `[Lines ${range.start}-${end} of ${range.totalLines}]`
+			: `[No lines in range; the file has ${range.totalLines} lines]`;
+
 		return {
 			content: [
 				{
 					type: "text",
-					text: content
+					text: content ? `${content}\n\n${summary}` : summary
 				}
 			]
 		};
@@ -109,7 +596,7 @@ export async function read_text_file(request: any, env: Environment): Promise<MC
 
 export async function read_media_file(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path } = request;
+		const path = await resolvePath(request.path, env);
 		const data = await Deno.readFile(path);
 		const base64Data = btoa(String.fromCharCode(...data));
 
@@ -165,7 +652,7 @@ export async function read_multiple_files(request: any, env: Environment): Promi
 
 		for (const filePath of paths) {
 			try {
-				const content = await Deno.readTextFile(filePath);
+				const content = await Deno.readTextFile(await resolvePath(filePath, env));
 				results.push(`${filePath}:\n${content}\n`);
 			} catch (error) {
 				results.push(`${filePath}: Error - ${error instanceof Error ? error.message : String(error)}`);
@@ -196,8 +683,11 @@ export async function read_multiple_files(request: any, env: Environment): Promi
 // File writing functions
 export async function write_file(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path, content } = request;
+		const { content } = request;
+		const path = await resolvePath(request.path, env);
+		const change = await beginChange(env, path);
 		await Deno.writeTextFile(path, content);
+		await commitChange(change, { tool: 'write_file', after: content });
 
 		return {
 			content: [
@@ -220,67 +710,136 @@ export async function write_file(request: any, env: Environment): Promise<MCPRes
 	}
 }
 
-export async function edit_file(request: any, env: Environment): Promise<MCPResult> {
-	try {
-		const { path, edits, dryRun = false } = request;
-
-		// Read file content
-		const content = normalizeLineEndings(await Deno.readTextFile(path));
+// Locate every match of an edit's oldText, exactly or else line by line ignoring
+// surrounding whitespace, then pick the occurrence(s) the edit asks for
+interface EditMatch {
+	start: number;
+	end: number;
+	line: number;
+	replacement: string;
+}
 
-		// Apply edits sequentially
-		let modifiedContent = content;
-		for (const edit of edits) {
-			const normalizedOld = normalizeLineEndings(edit.oldText);
-			const normalizedNew = normalizeLineEndings(edit.newText);
+function findEditMatches(content: string, oldText: string, newText: string, startLine: number, endLine: number): EditMatch[] {
+	const lineStarts = [0];
+	for (let i = 0; i < content.length; i++) {
+		if (content[i] === '\n') lineStarts.push(i + 1);
+	}
+	const lineOf = (index: number) => {
+		let line = 0;
+		while (line + 1 < lineStarts.length && lineStarts[line + 1]! <= index) line++;
+		return line + 1;
+	};
+	const oldLines = oldText.split('\n');
+	const inRange = (first: number) => first >= startLine && first + oldLines.length - 1 <= endLine;
+
+	const exact: EditMatch[] = [];
+	for (let index = content.indexOf(oldText); index !== -1; index = content.indexOf(oldText, index + oldText.length)) {
+		const line = lineOf(index);
+		if (inRange(line)) {
+			exact.push({ start: index, end: index + oldText.length, line, replacement: newText });
+		}
+	}
+	if (exact.length > 0) {
+		return exact;
+	}
 
-			if (modifiedContent.includes(normalizedOld)) {
-				modifiedContent = modifiedContent.replace(normalizedOld, normalizedNew);
-				continue;
+	// Try line-by-line matching with flexibility for whitespace
+	const contentLines = content.split('\n');
+	const flexible: EditMatch[] = [];
+	for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
+		if (!inRange(i + 1)) continue;
+
+		const isMatch = oldLines.every((oldLine, j) => oldLine.trim() === contentLines[i + j]?.trim());
+		if (!isMatch) continue;
+
+		const originalIndent = contentLines[i]?.match(/^\s*/)?.[0] || '';
+		const newLines = newText.split('\n').map((line, j) => {
+			if (j === 0) return originalIndent + line.trimStart();
+			const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
+			const newIndent = line.match(/^\s*/)?.[0] || '';
+			if (oldIndent && newIndent) {
+				const relativeIndent = newIndent.length - oldIndent.length;
+				return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
 			}
+			return line;
+		});
 
-			// Try line-by-line matching with flexibility for whitespace
-			const oldLines = normalizedOld.split('\n');
-			const contentLines = modifiedContent.split('\n');
-			let matchFound = false;
+		const start = lineStarts[i]!;
+		const lastLine = i + oldLines.length - 1;
+		const end = lineStarts[lastLine]! + contentLines[lastLine]!.length;
+		flexible.push({ start, end, line: i + 1, replacement: newLines.join('\n') });
+		i += oldLines.length - 1;
+	}
+	return flexible;
+}
 
-			for (let i = 0; i <= contentLines.length - oldLines.length; i++) {
-				const potentialMatch = contentLines.slice(i, i + oldLines.length);
+function applyEdit(content: string, edit: any): string {
+	const oldText = normalizeLineEndings(edit.oldText ?? '');
+	const newText = normalizeLineEndings(edit.newText ?? '');
+	const { occurrence, startLine = 1, endLine = Infinity } = edit;
 
-				const isMatch = oldLines.every((oldLine, j) => {
-					const contentLine = potentialMatch[j];
-					return oldLine.trim() === contentLine?.trim();
-				});
+	if (!oldText) {
+		throw new Error("oldText must not be empty");
+	}
+	if (occurrence !== undefined && occurrence !== 'all' && !(Number.isInteger(occurrence) && occurrence >= 1)) {
+		throw new Error(`occurrence must be a positive integer or "all", got ${JSON.stringify(occurrence)}`);
+	}
+	if (startLine < 1 || endLine < startLine) {
+		throw new Error(`Invalid line range ${startLine}-${endLine}`);
+	}
 
-				if (isMatch) {
-					const originalIndent = contentLines[i]?.match(/^\s*/)?.[0] || '';
-					const newLines = normalizedNew.split('\n').map((line, j) => {
-						if (j === 0) return originalIndent + line.trimStart();
-						const oldIndent = oldLines[j]?.match(/^\s*/)?.[0] || '';
-						const newIndent = line.match(/^\s*/)?.[0] || '';
-						if (oldIndent && newIndent) {
-							const relativeIndent = newIndent.length - oldIndent.length;
-							return originalIndent + ' '.repeat(Math.max(0, relativeIndent)) + line.trimStart();
-						}
-						return line;
-					});
+	const range = startLine !== 1 || endLine !== Infinity
+		? ` between lines ${startLine} and ${endLine === Infinity ? 'the end' : endLine}`
+		: '';
+	const matches = findEditMatches(content, oldText, newText, startLine, endLine);
+	if (matches.length === 0) {
+		throw new Error(`Could not find exact match for edit${range}:\n${edit.oldText}`);
+	}
 
-					contentLines.splice(i, oldLines.length, ...newLines);
-					modifiedContent = contentLines.join('\n');
-					matchFound = true;
-					break;
-				}
-			}
+	let selected: EditMatch[];
+	if (occurrence === 'all') {
+		selected = matches;
+	} else if (occurrence !== undefined) {
+		const match = matches[occurrence - 1];
+		if (!match) {
+			throw new Error(`occurrence ${occurrence} requested but oldText matches only ${matches.length} ${matches.length === 1 ? 'time' : 'times'}${range}:\n${edit.oldText}`);
+		}
+		selected = [match];
+	} else if (matches.length > 1) {
+		throw new Error(`oldText is ambiguous: it matches ${matches.length} times${range}, at lines ${matches.map(match => match.line).join(', ')}. Include more surrounding context, or set occurrence (1-${matches.length} or "all") or startLine/endLine to choose:\n${edit.oldText}`);
+	} else {
+		selected = matches;
+	}
 
-			if (!matchFound) {
-				throw new Error(`Could not find exact match for edit:\n${edit.oldText}`);
-			}
+	// Replace from the end so earlier offsets stay valid
+	let result = content;
+	for (const match of [...selected].reverse()) {
+		result = result.slice(0, match.start) + match.replacement + result.slice(match.end);
+	}
+	return result;
+}
+
+export async function edit_file(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { edits, dryRun = false } = request;
+		const path = await resolvePath(request.path, env);
+
+		// Read file content
+		const content = normalizeLineEndings(await Deno.readTextFile(path));
+
+		// Apply edits sequentially
+		let modifiedContent = content;
+		for (const edit of edits) {
+			modifiedContent = applyEdit(modifiedContent, edit);
 		}
 
 		// Create unified diff
 		const diff = createUnifiedDiff(content, modifiedContent, path);
 
 		if (!dryRun) {
+			const change = await beginChange(env, path);
 			await Deno.writeTextFile(path, modifiedContent);
+			await commitChange(change, { tool: 'edit_file', after: modifiedContent });
 		}
 
 		return {
@@ -304,72 +863,493 @@ export async function edit_file(request: any, env: Environment): Promise<MCPResu
 	}
 }
 
-// Directory operations
-export async function create_directory(request: any, env: Environment): Promise<MCPResult> {
-	try {
-		const { path } = request;
-		await Deno.mkdir(path, { recursive: true });
+// Unified diff parsing and application for apply_patch
+interface HunkLine {
+	type: ' ' | '-' | '+';
+	text: string;
+}
 
-		return {
-			content: [
-				{
-					type: "text",
-					text: `Successfully created directory ${path}`
-				}
-			]
-		};
-	} catch (error) {
-		return {
-			content: [
-				{
-					type: "text",
-					text: `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`
-				}
-			],
-			isError: true
-		};
-	}
+interface Hunk {
+	header: string;
+	oldStart: number;
+	lines: HunkLine[];
+	oldNoNewline: boolean;
+	newNoNewline: boolean;
 }
 
-export async function list_directory(request: any, env: Environment): Promise<MCPResult> {
-	try {
-		const { path } = request;
-		const entries: string[] = [];
+interface FilePatch {
+	oldPath: string | null;
+	newPath: string | null;
+	hunks: Hunk[];
+}
 
-		for await (const entry of Deno.readDir(path)) {
-			const prefix = entry.isDirectory ? "[DIR]" : "[FILE]";
-			entries.push(`${prefix} ${entry.name}`);
+// Strip a/ and b/ prefixes, /dev/null and trailing timestamps from diff header paths
+function diffHeaderPath(header: string, prefix: string): string | null {
+	const path = header.split('\t')[0]!.trim().replace(/^"(.*)"$/, '$1');
+	if (path === '/dev/null') return null;
+	return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+function parsePatch(patch: string): FilePatch[] {
+	const lines = normalizeLineEndings(patch).split('\n');
+	const files: FilePatch[] = [];
+	let current: FilePatch | null = null;
+	// Whether the current file started with a "diff --git" line whose ---/+++ pair is still to come
+	let awaitingHeaders = false;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]!;
+
+		if (line === 'GIT binary patch' || /^Binary files .* differ$/.test(line)) {
+			const path = current?.newPath ?? current?.oldPath;
+			throw new Error(`Binary patches are not supported${path ? `: ${path}` : ''}`);
 		}
 
-		return {
-			content: [
-				{
-					type: "text",
-					text: entries.join("\n")
+		if (line.startsWith('diff --git ')) {
+			const names = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+			current = { oldPath: names?.[1] ?? null, newPath: names?.[2] ?? null, hunks: [] };
+			files.push(current);
+			awaitingHeaders = true;
+			continue;
+		}
+
+		if (current && awaitingHeaders) {
+			if (line.startsWith('rename from ')) {
+				current.oldPath = line.slice('rename from '.length);
+				continue;
+			}
+			if (line.startsWith('rename to ')) {
+				current.newPath = line.slice('rename to '.length);
+				continue;
+			}
+			if (line.startsWith('new file mode')) {
+				current.oldPath = null;
+				continue;
+			}
+			if (line.startsWith('deleted file mode')) {
+				current.newPath = null;
+				continue;
+			}
+		}
+
+		if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+			// A ---/+++ pair completes a git header, or starts a new file in a plain diff
+			if (!current || !awaitingHeaders) {
+				current = { oldPath: null, newPath: null, hunks: [] };
+				files.push(current);
+			}
+			awaitingHeaders = false;
+
+			const oldHeader = line.slice(4);
+			const newHeader = lines[i + 1]!.slice(4);
+			const prefixed = (oldHeader.startsWith('a/') || oldHeader.startsWith('/dev/null'))
+				&& (newHeader.startsWith('b/') || newHeader.startsWith('/dev/null'));
+			current.oldPath = diffHeaderPath(oldHeader, prefixed ? 'a/' : '');
+			current.newPath = diffHeaderPath(newHeader, prefixed ? 'b/' : '');
+			i++;
+
+			// createUnifiedDiff output has no @@ headers: the body is one hunk over the whole file
+			if (!lines[i + 1]?.startsWith('@@')) {
+				const hunk: Hunk = { header: 'whole file', oldStart: 1, lines: [], oldNoNewline: false, newNoNewline: false };
+				while (i + 1 < lines.length && /^[ +\-\\]/.test(lines[i + 1]!) && !lines[i + 1]!.startsWith('--- ')) {
+					const body = lines[++i]!;
+					if (body.startsWith('\\')) continue;
+					hunk.lines.push({ type: body[0] as HunkLine['type'], text: body.slice(1) });
 				}
-			]
-		};
-	} catch (error) {
-		return {
-			content: [
-				{
-					type: "text",
-					text: `Failed to list directory: ${error instanceof Error ? error.message : String(error)}`
+				// The split of a trailing newline shows up as an empty final context line
+				const last = hunk.lines[hunk.lines.length - 1];
+				if (last?.type === ' ' && last.text === '') hunk.lines.pop();
+				if (hunk.lines.length > 0) current.hunks.push(hunk);
+			}
+			continue;
+		}
+
+		const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/);
+		if (header) {
+			if (!current) {
+				throw new Error(`Hunk "${line}" appears before any file header`);
+			}
+			let oldRemaining = header[2] === undefined ? 1 : Number(header[2]);
+			let newRemaining = header[4] === undefined ? 1 : Number(header[4]);
+			const hunk: Hunk = { header: line, oldStart: Number(header[1]), lines: [], oldNoNewline: false, newNoNewline: false };
+
+			while ((oldRemaining > 0 || newRemaining > 0 || lines[i + 1]?.startsWith('\\')) && i + 1 < lines.length) {
+				const body = lines[++i]!;
+				if (body.startsWith('\\')) {
+					const last = hunk.lines[hunk.lines.length - 1];
+					if (last?.type !== '+') hunk.oldNoNewline = true;
+					if (last?.type !== '-') hunk.newNoNewline = true;
+					continue;
 				}
-			],
-			isError: true
-		};
+				// Some editors strip the single space of empty context lines
+				const type = (body === '' ? ' ' : body[0]) as HunkLine['type'];
+				if (type !== ' ' && type !== '-' && type !== '+') {
+					throw new Error(`Malformed hunk line in ${line}: ${body}`);
+				}
+				hunk.lines.push({ type, text: body.slice(1) });
+				if (type !== '+') oldRemaining--;
+				if (type !== '-') newRemaining--;
+			}
+			if (oldRemaining > 0 || newRemaining > 0) {
+				throw new Error(`Hunk ${line} is truncated`);
+			}
+			awaitingHeaders = false;
+			current.hunks.push(hunk);
+		}
 	}
+
+	return files.filter(file => file.oldPath !== null || file.newPath !== null);
 }
 
-export async function list_directory_with_sizes(request: any, env: Environment): Promise<MCPResult> {
-	try {
-		const { path, sortBy = 'name' } = request;
-		const entries: Array<{ name: string, isDirectory: boolean, size: number }> = [];
+interface HunkResult {
+	header: string;
+	applied: boolean;
+	line?: number;
+	offset?: number;
+	fuzz?: number;
+}
 
-		for await (const entry of Deno.readDir(path)) {
-			const entryPath = `${path}/${entry.name}`;
-			let size = 0;
+// Find where a hunk's old lines occur, preferring the expected position, then the
+// nearest offset, then dropping up to `fuzz` context lines from each end
+function locateHunk(fileLines: string[], hunk: Hunk, expected: number, fuzz: number): { index: number, fuzz: number, leading: number, trailing: number } | null {
+	const lines = hunk.lines;
+	const firstChange = lines.findIndex(line => line.type !== ' ');
+	let lastChange = -1;
+	lines.forEach((line, j) => {
+		if (line.type !== ' ') lastChange = j;
+	});
+	const leadingContext = firstChange === -1 ? 0 : firstChange;
+	const trailingContext = lastChange === -1 ? 0 : lines.length - 1 - lastChange;
+
+	for (let level = 0; level <= fuzz; level++) {
+		const leading = Math.min(level, leadingContext);
+		const trailing = Math.min(level, trailingContext);
+		const old = lines
+			.slice(leading, lines.length - trailing)
+			.filter(line => line.type !== '+')
+			.map(line => line.text);
+
+		const matchesAt = (start: number) =>
+			start >= 0 && start + old.length <= fileLines.length && old.every((text, j) => fileLines[start + j] === text);
+
+		const target = expected + leading;
+		for (let distance = 0; distance <= fileLines.length; distance++) {
+			if (matchesAt(target - distance)) return { index: target - distance, fuzz: level, leading, trailing };
+			if (distance > 0 && matchesAt(target + distance)) return { index: target + distance, fuzz: level, leading, trailing };
+		}
+	}
+	return null;
+}
+
+// Apply hunks to file content, returning the new content and a per-hunk report
+function applyHunks(content: string, hunks: Hunk[], fuzz: number): { content: string, results: HunkResult[] } {
+	const eol = content.includes('\r\n') ? '\r\n' : '\n';
+	const fileLines = content.length > 0 ? normalizeLineEndings(content).split('\n') : [];
+	// New files end with a newline unless the patch says otherwise
+	let trailingNewline = content.length === 0 || fileLines[fileLines.length - 1] === '';
+	if (content.length > 0 && trailingNewline) fileLines.pop();
+
+	const results: HunkResult[] = [];
+	let delta = 0;
+	for (const hunk of hunks) {
+		// A hunk with no old lines inserts after line oldStart rather than at it
+		const start = hunk.lines.some(line => line.type !== '+') ? hunk.oldStart - 1 : hunk.oldStart;
+		const expected = Math.max(0, start + delta);
+		const location = locateHunk(fileLines, hunk, expected, fuzz);
+		if (!location) {
+			results.push({ header: hunk.header, applied: false });
+			continue;
+		}
+
+		const used = hunk.lines.slice(location.leading, hunk.lines.length - location.trailing);
+		const oldLength = used.filter(line => line.type !== '+').length;
+		const replacement = used.filter(line => line.type !== '-').map(line => line.text);
+		fileLines.splice(location.index, oldLength, ...replacement);
+
+		const offset = location.index - location.leading - (start + delta);
+		delta += replacement.length - oldLength + offset;
+		results.push({ header: hunk.header, applied: true, line: location.index - location.leading + 1, offset, fuzz: location.fuzz });
+
+		if (hunk.newNoNewline) trailingNewline = false;
+		else if (hunk.oldNoNewline) trailingNewline = true;
+	}
+
+	const joined = fileLines.join(eol);
+	return { content: fileLines.length > 0 && trailingNewline ? joined + eol : joined, results };
+}
+
+// Absolute header paths, as written by edit-file's diffs, are kept; relative ones are taken from root
+function patchFilePath(root: string, path: string): string {
+	return path.startsWith('/') ? path : `${root}/${path}`;
+}
+
+export async function apply_patch(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { patch, dryRun = false, fuzz = 2 } = request;
+		const root = await resolvePath(request.path, env);
+
+		if (!patch) {
+			throw new Error("patch is required");
+		}
+		if (!Number.isInteger(fuzz) || fuzz < 0) {
+			throw new Error("fuzz must be a non-negative integer");
+		}
+
+		const filePatches = parsePatch(patch);
+		if (filePatches.length === 0) {
+			throw new Error("No file changes found in patch");
+		}
+
+		// Validate every file and hunk before anything is written
+		const operations: Array<{ source: string | null, target: string | null, content: string }> = [];
+		const report: string[] = [];
+		const touched = new Set<string>();
+		let problems = 0;
+
+		for (const filePatch of filePatches) {
+			const source = filePatch.oldPath === null ? null : await resolvePath(patchFilePath(root, filePatch.oldPath), env);
+			const target = filePatch.newPath === null ? null : await resolvePath(patchFilePath(root, filePatch.newPath), env);
+
+			let status: string;
+			if (source === null) status = `A ${filePatch.newPath}`;
+			else if (target === null) status = `D ${filePatch.oldPath}`;
+			else if (source !== target) status = `R ${filePatch.oldPath} -> ${filePatch.newPath}`;
+			else status = `M ${filePatch.newPath}`;
+			report.push(status);
+
+			for (const path of new Set([source, target])) {
+				if (path === null) continue;
+				if (touched.has(path)) {
+					throw new Error(`Patch changes ${path} more than once`);
+				}
+				touched.add(path);
+			}
+
+			let original = '';
+			if (source !== null) {
+				try {
+					original = await Deno.readTextFile(source);
+				} catch (error) {
+					report.push(`  cannot read ${filePatch.oldPath}: ${error instanceof Error ? error.message : String(error)}`);
+					problems++;
+					continue;
+				}
+			}
+			if (target !== null && target !== source) {
+				try {
+					await Deno.lstat(target);
+					report.push(`  ${filePatch.newPath} already exists`);
+					problems++;
+					continue;
+				} catch {
+					// The target must not exist yet
+				}
+			}
+
+			const { content, results } = applyHunks(original, filePatch.hunks, fuzz);
+			results.forEach((result, index) => {
+				if (!result.applied) {
+					problems++;
+					report.push(`  hunk ${index + 1} (${result.header}): FAILED - context not found`);
+					return;
+				}
+				const notes: string[] = [];
+				if (result.offset) notes.push(`offset ${result.offset > 0 ? '+' : ''}${result.offset} lines`);
+				if (result.fuzz) notes.push(`fuzz ${result.fuzz}`);
+				report.push(`  hunk ${index + 1} (${result.header}): applied at line ${result.line}${notes.length > 0 ? ` (${notes.join(', ')})` : ''}`);
+			});
+
+			if (target === null && content.length > 0) {
+				problems++;
+				report.push(`  ${filePatch.oldPath} is not empty after applying the deletion hunks`);
+				continue;
+			}
+
+			operations.push({ source, target, content });
+		}
+
+		if (problems > 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Patch not applied - ${problems} ${problems === 1 ? 'problem' : 'problems'} found, no files were changed\n\n${report.join('\n')}`
+					}
+				],
+				isError: true
+			};
+		}
+
+		if (dryRun) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Dry run - patch applies cleanly to ${operations.length} ${operations.length === 1 ? 'file' : 'files'}, no files were changed\n\n${report.join('\n')}`
+					}
+				]
+			};
+		}
+
+		// Write every new file to a temp file first, then swap them in with renames,
+		// keeping the originals aside so any failure can be rolled back
+		const token = `apply-patch-${Date.now().toString(36)}`;
+		const temps: string[] = [];
+		const backups: string[] = [];
+		// Deepest first, so a rollback can remove them in order
+		const createdDirectories: string[] = [];
+		const undo: Array<() => Promise<void>> = [];
+		try {
+			for (const operation of operations) {
+				if (operation.target !== null) {
+					const parent = operation.target.slice(0, operation.target.lastIndexOf('/')) || '/';
+					const missing: string[] = [];
+					for (let directory = parent; directory !== '/'; directory = directory.slice(0, directory.lastIndexOf('/')) || '/') {
+						try {
+							await Deno.lstat(directory);
+							break;
+						} catch {
+							missing.push(directory);
+						}
+					}
+					await Deno.mkdir(parent, { recursive: true });
+					createdDirectories.unshift(...missing);
+					const temp = `${operation.target}.${token}.tmp`;
+					await Deno.writeTextFile(temp, operation.content);
+					temps.push(temp);
+					if (operation.source !== null) {
+						const { mode } = await Deno.stat(operation.source);
+						if (mode !== null) await Deno.chmod(temp, mode & 0o7777);
+					}
+				}
+			}
+
+			for (const operation of operations) {
+				const { source, target } = operation;
+				if (source !== null) {
+					const backup = `${source}.${token}.orig`;
+					await Deno.rename(source, backup);
+					backups.push(backup);
+					undo.push(() => Deno.rename(backup, source));
+				}
+				if (target !== null) {
+					await Deno.rename(`${target}.${token}.tmp`, target);
+					undo.push(() => Deno.remove(target));
+				}
+			}
+		} catch (error) {
+			for (const step of undo.reverse()) {
+				try {
+					await step();
+				} catch {
+					// Keep rolling back the remaining steps
+				}
+			}
+			for (const temp of temps) {
+				await Deno.remove(temp).catch(() => {});
+			}
+			for (const directory of createdDirectories) {
+				await Deno.remove(directory).catch(() => {});
+			}
+			throw new Error(`Patch failed and its changes were rolled back: ${error instanceof Error ? error.message : String(error)}`);
+		}
+
+		for (const backup of backups) {
+			await Deno.remove(backup).catch(() => {});
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Patch applied to ${operations.length} ${operations.length === 1 ? 'file' : 'files'}\n\n${report.join('\n')}`
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to apply patch: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+// Directory operations
+export async function create_directory(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const path = await resolvePath(request.path, env);
+		await Deno.mkdir(path, { recursive: true });
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Successfully created directory ${path}`
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to create directory: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function list_directory(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const path = await resolvePath(request.path, env);
+		const history = await historyDirectory(env);
+		const entries: string[] = [];
+
+		for await (const entry of Deno.readDir(path)) {
+			if (`${path}/${entry.name}` === history) continue;
+			const prefix = entry.isDirectory ? "[DIR]" : "[FILE]";
+			entries.push(`${prefix} ${entry.name}`);
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: entries.join("\n")
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to list directory: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function list_directory_with_sizes(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { sortBy = 'name' } = request;
+		const path = await resolvePath(request.path, env);
+		const history = await historyDirectory(env);
+		const entries: Array<{ name: string, isDirectory: boolean, size: number }> = [];
+
+		for await (const entry of Deno.readDir(path)) {
+			const entryPath = `${path}/${entry.name}`;
+			if (entryPath === history) continue;
+			let size = 0;
 
 			try {
 				if (entry.isFile) {
@@ -432,36 +1412,155 @@ export async function list_directory_with_sizes(request: any, env: Environment):
 	}
 }
 
+function renderTree(entries: TreeEntry[], indent: string, lines: string[]): void {
+	for (const entry of entries) {
+		if (entry.type === 'truncated') {
+			lines.push(`${indent}... ${entry.omitted} more`);
+			continue;
+		}
+		const details: string[] = [];
+		if (entry.size !== undefined) details.push(formatSize(entry.size));
+		if (entry.mtime !== undefined) details.push(entry.mtime);
+		const name = entry.type === 'directory' ? `${entry.name}/` : entry.name;
+		lines.push(`${indent}${name}${details.length > 0 ? `  (${details.join(', ')})` : ''}`);
+		if (entry.children) {
+			renderTree(entry.children, `${indent}  `, lines);
+		}
+	}
+}
+
 export async function directory_tree(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path } = request;
+		const {
+			maxDepth = Infinity,
+			maxEntries = DEFAULT_TREE_ENTRIES,
+			excludePatterns = [],
+			respectGitignore = false,
+			includeSizes = false,
+			includeMtimes = false,
+			format = 'json'
+		} = request;
+		const path = await resolvePath(request.path, env);
+		const history = await historyDirectory(env);
+
+		if (maxDepth !== Infinity && (!Number.isInteger(maxDepth) || maxDepth < 1)) {
+			throw new Error("maxDepth must be a positive integer");
+		}
+		if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+			throw new Error("maxEntries must be a positive integer");
+		}
+		if (format !== 'json' && format !== 'text') {
+			throw new Error(`format must be "json" or "text", got ${JSON.stringify(format)}`);
+		}
 
-		async function buildTree(currentPath: string): Promise<TreeEntry[]> {
-			const result: TreeEntry[] = [];
-			for await (const entry of Deno.readDir(currentPath)) {
+		interface PendingDirectory {
+			path: string;
+			relativePath: string;
+			depth: number;
+			rules: IgnoreRule[];
+			children: TreeEntry[];
+		}
+
+		// Sorted entries of a directory that pass excludePatterns and .gitignore rules
+		async function listEntries(directory: PendingDirectory): Promise<{ entries: Deno.DirEntry[], rules: IgnoreRule[] }> {
+			const rules = respectGitignore
+				? [...directory.rules, ...await readGitignore(directory.path, directory.relativePath)]
+				: directory.rules;
+
+			const entries: Deno.DirEntry[] = [];
+			for await (const entry of Deno.readDir(directory.path)) {
+				if (`${directory.path}/${entry.name}` === history) continue;
+				const relativePath = directory.relativePath ? `${directory.relativePath}/${entry.name}` : entry.name;
+				if (matchesGlobList(relativePath, excludePatterns, true)) continue;
+				if (respectGitignore && (entry.name === '.git' || isGitignored(relativePath, entry.isDirectory, rules))) continue;
+				entries.push(entry);
+			}
+			entries.sort((a, b) => a.name.localeCompare(b.name));
+			return { entries, rules };
+		}
+
+		// Breadth first, so maxEntries cuts off the deepest levels rather than later siblings
+		const root: TreeEntry[] = [];
+		const queue: PendingDirectory[] = [{ path, relativePath: '', depth: 0, rules: [], children: root }];
+		let listed = 0;
+		let files = 0;
+		let directories = 0;
+		let truncated = false;
+
+		for (let directory = queue.shift(); directory; directory = queue.shift()) {
+			let listing: { entries: Deno.DirEntry[], rules: IgnoreRule[] };
+			try {
+				listing = await listEntries(directory);
+			} catch {
+				// Skip directories we can't access
+				continue;
+			}
+
+			const { entries, rules } = listing;
+			if (directory.depth >= maxDepth || listed >= maxEntries) {
+				if (entries.length > 0) {
+					directory.children.push({ name: '...', type: 'truncated', omitted: entries.length });
+					truncated = true;
+				}
+				continue;
+			}
+
+			for (const [index, entry] of entries.entries()) {
+				if (listed >= maxEntries) {
+					directory.children.push({ name: '...', type: 'truncated', omitted: entries.length - index });
+					truncated = true;
+					break;
+				}
+
+				const entryPath = `${directory.path}/${entry.name}`;
 				const entryData: TreeEntry = {
 					name: entry.name,
 					type: entry.isDirectory ? 'directory' : 'file'
 				};
+				if (includeSizes || includeMtimes) {
+					try {
+						const info = await Deno.stat(entryPath);
+						if (includeSizes && !entry.isDirectory) entryData.size = info.size;
+						if (includeMtimes && info.mtime) entryData.mtime = info.mtime.toISOString();
+					} catch {
+						// Ignore stat errors
+					}
+				}
 
 				if (entry.isDirectory) {
-					const subPath = `${currentPath}/${entry.name}`;
-					entryData.children = await buildTree(subPath);
+					entryData.children = [];
+					queue.push({
+						path: entryPath,
+						relativePath: directory.relativePath ? `${directory.relativePath}/${entry.name}` : entry.name,
+						depth: directory.depth + 1,
+						rules,
+						children: entryData.children
+					});
+					directories++;
+				} else {
+					files++;
 				}
 
-				result.push(entryData);
+				directory.children.push(entryData);
+				listed++;
 			}
-
-			return result;
 		}
 
-		const treeData = await buildTree(path);
+		let text: string;
+		if (format === 'text') {
+			const lines = [`${path}/`];
+			renderTree(root, '  ', lines);
+			lines.push('', `${directories} directories, ${files} files${truncated ? ' (truncated; raise maxDepth or maxEntries to see more)' : ''}`);
+			text = lines.join("\n");
+		} else {
+			text = JSON.stringify(root, null, 2);
+		}
 
 		return {
 			content: [
 				{
 					type: "text",
-					text: JSON.stringify(treeData, null, 2)
+					text
 				}
 			]
 		};
@@ -481,8 +1580,12 @@ export async function directory_tree(request: any, env: Environment): Promise<MC
 // File operations
 export async function move_file(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { source, destination } = request;
+		// A symlink is moved itself, not the file it points to
+		const source = await resolveEntryPath(request.source, env);
+		const destination = await resolveEntryPath(request.destination, env);
+		const change = await beginChange(env, destination);
 		await Deno.rename(source, destination);
+		await commitChange(change, { tool: 'move_file', after: null, source });
 
 		return {
 			content: [
@@ -505,47 +1608,141 @@ export async function move_file(request: any, env: Environment): Promise<MCPResu
 	}
 }
 
-export async function search_files(request: any, env: Environment): Promise<MCPResult> {
+// Resolve a path without following a symlink in its last segment, so the link itself is acted on
+async function resolveEntryPath(path: string, env: Environment): Promise<string> {
+	const directories = await allowedDirectories(env);
+	const target = await resolvePath(path, env);
+	if (directories.includes(target)) {
+		return target;
+	}
+
+	const normalized = normalizePath(path);
+	const separator = normalized.lastIndexOf('/');
+	const name = normalized.slice(separator + 1);
+	if (!name) {
+		throw new Error("Refusing to operate on the root directory");
+	}
+	const parent = await resolvePath(normalized.slice(0, separator) || '/', env);
+	const resolved = `${parent === '/' ? '' : parent}/${name}`;
+	if (!isWithin(resolved, directories)) {
+		throw accessDenied(resolved);
+	}
+	return resolved;
+}
+
+type CopyEntryType = 'file' | 'directory' | 'symlink';
+
+interface CopyPlan {
+	source: string;
+	destination: string;
+	type: CopyEntryType;
+	// What is already at the destination, without following symlinks
+	existing: CopyEntryType | null;
+}
+
+// Only a real directory is merged into; a symlink at the destination is never followed,
+// so nothing below it is looked at or written through it
+function isCopyConflict(item: CopyPlan): boolean {
+	return item.existing !== null && !(item.type === 'directory' && item.existing === 'directory');
+}
+
+async function planCopy(source: string, destination: string, plan: CopyPlan[], history: string, fresh = false): Promise<void> {
+	const info = await Deno.lstat(source);
+	let existing: CopyEntryType | null = null;
+	if (!fresh) {
+		try {
+			const target = await Deno.lstat(destination);
+			existing = target.isSymlink ? 'symlink' : target.isDirectory ? 'directory' : 'file';
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) throw error;
+		}
+	}
+
+	const type = info.isSymlink ? 'symlink' : info.isDirectory ? 'directory' : 'file';
+	plan.push({ source, destination, type, existing });
+	if (type === 'directory') {
+		const children: string[] = [];
+		for await (const entry of Deno.readDir(source)) {
+			children.push(entry.name);
+		}
+		// Below a directory that is created or replaced nothing exists yet
+		const childrenFresh = fresh || existing !== 'directory';
+		for (const child of children.sort()) {
+			if (`${source}/${child}` === history) continue;
+			await planCopy(`${source}/${child}`, `${destination}/${child}`, plan, history, childrenFresh);
+		}
+	}
+}
+
+export async function copy_file(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path, pattern, excludePatterns = [] } = request;
-		const results: string[] = [];
+		const { overwrite = 'fail' } = request;
+		const source = await resolvePath(request.source, env);
+		const destination = await resolveEntryPath(request.destination, env);
 
-		async function search(currentPath: string): Promise<void> {
-			for await (const entry of Deno.readDir(currentPath)) {
-				const fullPath = `${currentPath}/${entry.name}`;
+		if (!['fail', 'skip', 'replace'].includes(overwrite)) {
+			throw new Error(`overwrite must be "fail", "skip" or "replace", got ${JSON.stringify(overwrite)}`);
+		}
+		if (isWithin(destination, [source])) {
+			throw new Error(`Cannot copy ${source} into itself`);
+		}
 
-				// Check if should exclude
-				const shouldExclude = excludePatterns.some((excludePattern: string) => {
-					return entry.name.toLowerCase().includes(excludePattern.toLowerCase());
-				});
+		const plan: CopyPlan[] = [];
+		await planCopy(source, destination, plan, await historyDirectory(env));
+
+		// Directories are merged; only files and symlinks conflict
+		const conflicts = plan.filter(isCopyConflict);
+		if (overwrite === 'fail' && conflicts.length > 0) {
+			const names = conflicts.slice(0, 5).map(item => item.destination);
+			throw new Error(`${conflicts.length} destination paths already exist (${names.join(', ')}${conflicts.length > 5 ? ', ...' : ''}); set overwrite to "skip" or "replace"`);
+		}
 
-				if (shouldExclude) {
+		let files = 0;
+		let directories = 0;
+		let skipped = 0;
+		const skippedDirectories: string[] = [];
+		for (const item of plan) {
+			if (isWithin(item.destination, skippedDirectories)) {
+				if (item.type !== 'directory') skipped++;
+				continue;
+			}
+			if (isCopyConflict(item)) {
+				if (overwrite === 'skip') {
+					if (item.type === 'directory') skippedDirectories.push(item.destination);
+					else skipped++;
 					continue;
 				}
-
-				// Check if matches pattern
-				if (entry.name.toLowerCase().includes(pattern.toLowerCase())) {
-					results.push(fullPath);
+				if (item.existing === 'directory') {
+					throw new Error(`Cannot replace directory ${item.destination} with a file`);
 				}
-
-				// Recurse into directories
-				if (entry.isDirectory) {
-					try {
-						await search(fullPath);
-					} catch {
-						// Skip directories we can't access
-					}
+				if (item.type === 'directory' && item.existing === 'file') {
+					throw new Error(`Cannot replace file ${item.destination} with a directory`);
+				}
+				// Replace the symlink itself rather than writing to what it points at
+				if (item.type !== 'file' || item.existing === 'symlink') {
+					await Deno.remove(item.destination);
 				}
 			}
+			if (item.type === 'directory') {
+				await Deno.mkdir(item.destination, { recursive: true });
+				directories++;
+				continue;
+			}
+			if (item.type === 'symlink') {
+				await Deno.symlink(await Deno.readLink(item.source), item.destination);
+			} else {
+				await Deno.copyFile(item.source, item.destination);
+			}
+			files++;
 		}
 
-		await search(path);
-
+		const parts = [`${files} files`];
+		if (directories > 0) parts.push(`${directories} directories`);
 		return {
 			content: [
 				{
 					type: "text",
-					text: results.length > 0 ? results.join("\n") : "No matches found"
+					text: `Successfully copied ${source} to ${destination} (${parts.join(', ')}${skipped > 0 ? `; skipped ${skipped} existing files` : ''})`
 				}
 			]
 		};
@@ -554,7 +1751,7 @@ export async function search_files(request: any, env: Environment): Promise<MCPR
 			content: [
 				{
 					type: "text",
-					text: `Failed to search files: ${error instanceof Error ? error.message : String(error)}`
+					text: `Failed to copy: ${error instanceof Error ? error.message : String(error)}`
 				}
 			],
 			isError: true
@@ -562,20 +1759,74 @@ export async function search_files(request: any, env: Environment): Promise<MCPR
 	}
 }
 
-export async function get_file_info(request: any, env: Environment): Promise<MCPResult> {
+// Every path below directory except the change history, depth first, with directories after their contents
+async function listTree(directory: string, paths: string[], history: string): Promise<void> {
+	const children: Deno.DirEntry[] = [];
+	for await (const entry of Deno.readDir(directory)) {
+		if (`${directory}/${entry.name}` === history) continue;
+		children.push(entry);
+	}
+	children.sort((a, b) => a.name.localeCompare(b.name));
+	for (const child of children) {
+		const childPath = `${directory}/${child.name}`;
+		if (child.isDirectory) {
+			await listTree(childPath, paths, history);
+			paths.push(`${childPath}/`);
+		} else {
+			paths.push(childPath);
+		}
+	}
+}
+
+export async function delete_path(request: any, env: Environment): Promise<MCPResult> {
 	try {
-		const { path } = request;
-		const stat = await Deno.stat(path);
+		const { recursive = false, dryRun = false } = request;
+		const path = await resolveEntryPath(request.path, env);
 
-		const infoText = Object.entries(stat)
-			.map(([key, value]) => `${key}: ${value}`)
-			.join("\n");
+		const directories = await allowedDirectories(env);
+		if (directories.includes(path)) {
+			throw new Error(`Refusing to delete ${path}: it is an allowed directory`);
+		}
+		const history = await historyDirectory(env);
+		if (isWithin(history, [path])) {
+			throw new Error(`Refusing to delete ${path}: it contains the change history directory`);
+		}
+
+		const info = await Deno.lstat(path);
+		const paths: string[] = [];
+		if (info.isDirectory) {
+			await listTree(path, paths, history);
+			if (!recursive && paths.length > 0) {
+				throw new Error(`${path} is a directory containing ${paths.length} entries; pass recursive to delete it and everything in it`);
+			}
+			paths.push(`${path}/`);
+		} else {
+			paths.push(path);
+		}
+
+		if (dryRun) {
+			const shown = paths.slice(0, MAX_DELETE_LISTING);
+			const lines = [`Would delete ${paths.length} paths:`, ...shown];
+			if (paths.length > shown.length) {
+				lines.push(`... and ${paths.length - shown.length} more`);
+			}
+			return {
+				content: [
+					{
+						type: "text",
+						text: lines.join("\n")
+					}
+				]
+			};
+		}
+
+		await Deno.remove(path, { recursive: info.isDirectory });
 
 		return {
 			content: [
 				{
 					type: "text",
-					text: infoText
+					text: paths.length > 1 ? `Successfully deleted ${path} and ${paths.length - 1} paths inside it` : `Successfully deleted ${path}`
 				}
 			]
 		};
@@ -584,7 +1835,7 @@ export async function get_file_info(request: any, env: Environment): Promise<MCP
 			content: [
 				{
 					type: "text",
-					text: `Failed to get file info: ${error instanceof Error ? error.message : String(error)}`
+					text: `Failed to delete: ${error instanceof Error ? error.message : String(error)}`
 				}
 			],
 			isError: true
@@ -592,15 +1843,1329 @@ export async function get_file_info(request: any, env: Environment): Promise<MCP
 	}
 }
 
-// Helper functions for head/tail operations
-async function headFile(filePath: string, numLines: number): Promise<string> {
-	const content = await Deno.readTextFile(filePath);
-	const lines = content.split('\n');
-	return lines.slice(0, numLines).join('\n');
-}
+export async function set_permissions(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { recursive = false } = request;
+		const path = await resolvePath(request.path, env);
+
+		const modeText = String(request.mode).replace(/^0o/, '');
+		if (!/^[0-7]{3,4}$/.test(modeText)) {
+			throw new Error(`mode must be octal permission bits such as "644" or "0755", got ${JSON.stringify(request.mode)}`);
+		}
+		const mode = parseInt(modeText, 8);
+
+		const paths = [path];
+		if (recursive && (await Deno.stat(path)).isDirectory) {
+			const below: string[] = [];
+			await listTree(path, below, await historyDirectory(env));
+			paths.push(...below.map(entry => entry.replace(/\/$/, '')));
+		}
 
-async function tailFile(filePath: string, numLines: number): Promise<string> {
-	const content = await Deno.readTextFile(filePath);
-	const lines = content.split('\n');
-	return lines.slice(-numLines).join('\n');
-}
\ No newline at end of file
+		const changes: string[] = [];
+		for (const target of paths) {
+			// Symlinks inside the tree are left alone rather than changing what they point to
+			const info = await Deno.lstat(target);
+			if (info.isSymlink) continue;
+			const previous = (info.mode ?? 0) & 0o7777;
+			await Deno.chmod(target, mode);
+			changes.push(`${target}: ${previous.toString(8).padStart(4, '0')} -> ${mode.toString(8).padStart(4, '0')}`);
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: changes.length > 1 ? `Changed permissions of ${changes.length} paths:\n${changes.join("\n")}` : `Changed permissions of ${changes[0] ?? path}`
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to set permissions: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function search_files(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { pattern, excludePatterns = [], respectGitignore = false } = request;
+		const path = await resolvePath(request.path, env);
+		const history = await historyDirectory(env);
+		const results: string[] = [];
+
+		// Plain patterns keep matching as a substring of the entry name; glob patterns
+		// are matched against the path relative to the search root
+		const isGlob = /[*?[\]{}!]/.test(pattern);
+		const negated = isGlob && pattern.startsWith('!');
+
+		async function search(currentPath: string, relativeDir: string, ignoreRules: IgnoreRule[]): Promise<void> {
+			const rules = respectGitignore
+				? [...ignoreRules, ...await readGitignore(currentPath, relativeDir)]
+				: ignoreRules;
+
+			for await (const entry of Deno.readDir(currentPath)) {
+				const fullPath = `${currentPath}/${entry.name}`;
+				const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+				// Check if should exclude
+				if (fullPath === history) {
+					continue;
+				}
+				if (matchesGlobList(relativePath, excludePatterns, true)) {
+					continue;
+				}
+				if (respectGitignore && (entry.name === '.git' || isGitignored(relativePath, entry.isDirectory, rules))) {
+					continue;
+				}
+
+				// Check if matches pattern
+				const isMatch = isGlob
+					? matchesGlob(relativePath, negated ? pattern.slice(1) : pattern, true) !== negated
+					: entry.name.toLowerCase().includes(pattern.toLowerCase());
+				if (isMatch) {
+					results.push(fullPath);
+				}
+
+				// Recurse into directories
+				if (entry.isDirectory) {
+					try {
+						await search(fullPath, relativePath, rules);
+					} catch {
+						// Skip directories we can't access
+					}
+				}
+			}
+		}
+
+		await search(path, '', []);
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: results.length > 0 ? results.join("\n") : "No matches found"
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to search files: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function grep_files(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const {
+			pattern,
+			literal = false,
+			caseSensitive = true,
+			includePatterns = [],
+			excludePatterns = [],
+			contextLines = 0,
+			maxMatchesPerFile = 20,
+			maxResults = 200,
+			respectGitignore = false
+		} = request;
+
+		if (!pattern) {
+			throw new Error("pattern is required");
+		}
+		const path = await resolvePath(request.path, env);
+		const history = await historyDirectory(env);
+		if (contextLines < 0 || maxMatchesPerFile < 1 || maxResults < 1) {
+			throw new Error("contextLines must be non-negative and maxMatchesPerFile and maxResults must be at least 1");
+		}
+
+		const source = literal ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+		const regex = new RegExp(source, caseSensitive ? 'g' : 'gi');
+
+		const results: string[] = [];
+		let totalMatches = 0;
+		let filesMatched = 0;
+		let filesSearched = 0;
+		let filesSkipped = 0;
+		let truncated = false;
+
+		async function searchFile(fullPath: string): Promise<void> {
+			const stat = await Deno.stat(fullPath);
+			if (stat.size > MAX_GREP_FILE_SIZE) {
+				filesSkipped++;
+				return;
+			}
+
+			const data = await Deno.readFile(fullPath);
+			if (isBinary(data)) {
+				filesSkipped++;
+				return;
+			}
+			filesSearched++;
+
+			const lines = normalizeLineEndings(new TextDecoder().decode(data)).split('\n');
+			const hits: Array<{ line: number, column: number }> = [];
+			for (let i = 0; i < lines.length && hits.length < maxMatchesPerFile; i++) {
+				regex.lastIndex = 0;
+				const match = regex.exec(lines[i]!);
+				if (match) {
+					hits.push({ line: i, column: match.index });
+				}
+			}
+			if (hits.length === 0) {
+				return;
+			}
+			filesMatched++;
+
+			// Print hits grep-style: path:line:col: for matches, path-line- for context, -- between groups
+			let lastPrinted = -1;
+			for (const hit of hits) {
+				if (totalMatches >= maxResults) {
+					truncated = true;
+					return;
+				}
+				totalMatches++;
+
+				const start = Math.max(0, hit.line - contextLines, lastPrinted + 1);
+				const end = Math.min(lines.length - 1, hit.line + contextLines);
+				if (contextLines > 0 && lastPrinted >= 0 && start > lastPrinted + 1) {
+					results.push('--');
+				}
+				for (let i = start; i <= end; i++) {
+					if (i === hit.line) {
+						results.push(`${fullPath}:${i + 1}:${hit.column + 1}: ${lines[i]}`);
+					} else if (i > hit.line && hits.some(other => other.line === i)) {
+						// The next hit prints its own line
+						break;
+					} else {
+						results.push(`${fullPath}-${i + 1}-  ${lines[i]}`);
+					}
+					lastPrinted = i;
+				}
+			}
+		}
+
+		async function search(currentPath: string, relativeDir: string, ignoreRules: IgnoreRule[]): Promise<void> {
+			const rules = respectGitignore
+				? [...ignoreRules, ...await readGitignore(currentPath, relativeDir)]
+				: ignoreRules;
+
+			for await (const entry of Deno.readDir(currentPath)) {
+				if (truncated) {
+					return;
+				}
+
+				const fullPath = `${currentPath}/${entry.name}`;
+				const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+				if (fullPath === history) {
+					continue;
+				}
+				if (matchesGlobList(relativePath, excludePatterns)) {
+					continue;
+				}
+				if (respectGitignore && (entry.name === '.git' || isGitignored(relativePath, entry.isDirectory, rules))) {
+					continue;
+				}
+
+				if (entry.isDirectory) {
+					try {
+						await search(fullPath, relativePath, rules);
+					} catch {
+						// Skip directories we can't access
+					}
+					continue;
+				}
+
+				if (!entry.isFile) {
+					continue;
+				}
+				if (includePatterns.length > 0 && !matchesGlobList(relativePath, includePatterns)) {
+					continue;
+				}
+
+				try {
+					await searchFile(fullPath);
+				} catch {
+					filesSkipped++;
+				}
+			}
+		}
+
+		const rootStat = await Deno.stat(path);
+		if (rootStat.isDirectory) {
+			await search(path, '', []);
+		} else {
+			await searchFile(path);
+		}
+
+		const searched = `${filesSearched} ${filesSearched === 1 ? 'file' : 'files'} searched${filesSkipped > 0 ? `, ${filesSkipped} binary, oversized or unreadable skipped` : ''}`;
+		if (totalMatches === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: `No matches found (${searched})`
+					}
+				]
+			};
+		}
+
+		const summary = [
+			"",
+			`Found ${totalMatches} ${totalMatches === 1 ? 'match' : 'matches'} in ${filesMatched} ${filesMatched === 1 ? 'file' : 'files'} (${searched})`
+		];
+		if (truncated) {
+			summary.push(`Results truncated at maxResults (${maxResults}); narrow the pattern or globs to see more`);
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: [...results, ...summary].join("\n")
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to grep files: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function get_file_info(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const path = await resolvePath(request.path, env);
+		const stat = await Deno.stat(path);
+
+		const infoText = Object.entries(stat)
+			.map(([key, value]) => `${key}: ${value}`)
+			.join("\n");
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: infoText
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to get file info: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+// Streaming range reads for read_text_file
+// Files are read in fixed-size chunks so only the requested lines stay in memory
+interface LineRange {
+	lines: string[];
+	// 1-based number of the first line in lines
+	start: number;
+	totalLines: number;
+}
+
+// Read count lines starting at the 1-based line from, or the last tail lines, counting every line on the way
+async function readLineRange(filePath: string, range: { from: number, count: number } | { tail: number }): Promise<LineRange> {
+	const file = await Deno.open(filePath, { read: true });
+	try {
+		const decoder = new TextDecoder();
+		const buffer = new Uint8Array(READ_CHUNK_SIZE);
+		let lines: string[] = [];
+		let lineNumber = 0;
+		let partial = '';
+
+		const take = (line: string) => {
+			lineNumber++;
+			if ('tail' in range) {
+				lines.push(line);
+				// Trim in batches rather than shifting on every line
+				if (lines.length >= range.tail * 2) {
+					lines = lines.slice(-range.tail);
+				}
+			} else if (lineNumber >= range.from && lineNumber - range.from < range.count) {
+				lines.push(line);
+			}
+		};
+
+		let bytesRead: number | null;
+		while ((bytesRead = await file.read(buffer)) !== null) {
+			const pieces = (partial + decoder.decode(buffer.subarray(0, bytesRead), { stream: true })).split('\n');
+			partial = pieces.pop() ?? '';
+			pieces.forEach(take);
+		}
+		partial += decoder.decode();
+		if (partial) {
+			take(partial);
+		}
+
+		if ('tail' in range) {
+			lines = lines.slice(-range.tail);
+			return { lines, start: lineNumber - lines.length + 1, totalLines: lineNumber };
+		}
+		return { lines, start: range.from, totalLines: lineNumber };
+	} finally {
+		file.close();
+	}
+}
+
+async function readByteRange(filePath: string, offset: number, length: number): Promise<{ text: string, start: number, end: number, size: number }> {
+	const file = await Deno.open(filePath, { read: true });
+	try {
+		const size = (await file.stat()).size;
+		const start = Math.min(offset, size);
+		await file.seek(start, Deno.SeekMode.Start);
+
+		const buffer = new Uint8Array(Math.min(length, size - start));
+		let filled = 0;
+		while (filled < buffer.length) {
+			const bytesRead = await file.read(buffer.subarray(filled));
+			if (bytesRead === null) break;
+			filled += bytesRead;
+		}
+		// Characters cut at either end of the range decode as U+FFFD
+		return { text: new TextDecoder().decode(buffer.subarray(0, filled)), start, end: start + filled, size };
+	} finally {
+		file.close();
+	}
+}
+
+export async function list_allowed_directories(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const directories = await allowedDirectories(env);
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: directories.length > 0
+						? `Allowed directories:\n${directories.join("\n")}`
+						: "No allowed directories are configured. Set ALLOWED_DIRECTORIES to the directories granted to this plugin"
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to list allowed directories: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function list_file_history(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { limit = 20, includeDiff = false } = request;
+		const path = request.path ? await resolvePath(request.path, env) : null;
+
+		const directory = await historyDirectory(env);
+		const entries = await readHistory(directory);
+		const undoneBy = new Map(entries.filter(entry => entry.undoes !== undefined).map(entry => [entry.undoes!, entry.id]));
+
+		const matching = entries
+			.filter(entry => path === null || entry.path === path || entry.source === path)
+			.reverse()
+			.slice(0, limit);
+
+		if (matching.length === 0) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: path ? `No recorded changes for ${path}` : "No recorded changes"
+					}
+				]
+			};
+		}
+
+		const lines = matching.map(entry => {
+			const added = entry.diff.split('\n').filter(line => line.startsWith('+') && !line.startsWith('+++')).length;
+			const removed = entry.diff.split('\n').filter(line => line.startsWith('-') && !line.startsWith('---')).length;
+			const target = entry.source !== undefined ? `${entry.source} -> ${entry.path}` : `${entry.path} (+${added} -${removed})`;
+			const notes: string[] = [];
+			if (entry.undoes !== undefined) notes.push(`undoes #${entry.undoes}`);
+			if (undoneBy.has(entry.id)) notes.push(`undone by #${undoneBy.get(entry.id)}`);
+
+			const summary = `#${entry.id}  ${entry.timestamp}  ${entry.tool}  ${target}${notes.length > 0 ? `  [${notes.join(', ')}]` : ''}`;
+			return includeDiff && entry.source === undefined ? `${summary}\n\`\`\`diff\n${entry.diff}\n\`\`\`` : summary;
+		});
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: lines.join("\n")
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to list file history: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function undo_file_change(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { id, force = false } = request;
+
+		const directory = await historyDirectory(env);
+		const entries = await readHistory(directory);
+		const entry = entries.find(candidate => candidate.id === id);
+		if (!entry) {
+			throw new Error(`No history entry #${id}; use list-file-history to find entries`);
+		}
+		const undo = entries.find(candidate => candidate.undoes === id);
+		if (undo) {
+			throw new Error(`Entry #${id} was already undone by #${undo.id}`);
+		}
+
+		const path = await resolvePath(entry.path, env);
+
+		// Moves are undone by moving the file back and restoring anything it replaced
+		if (entry.source !== undefined) {
+			const source = await resolvePath(entry.source, env);
+			try {
+				await Deno.lstat(source);
+				throw new Error(`Cannot move ${path} back: ${source} already exists`);
+			} catch (error) {
+				if (!(error instanceof Deno.errors.NotFound)) throw error;
+			}
+
+			const change = await beginChange(env, source);
+			await Deno.rename(path, source);
+			if (entry.snapshot) {
+				await Deno.writeFile(path, await Deno.readFile(`${directory}/snapshots/${entry.id}`));
+			}
+			await commitChange(change, { tool: 'undo_file_change', after: null, source: path, undoes: entry.id });
+
+			return {
+				content: [
+					{
+						type: "text",
+						text: `Undid #${entry.id}: moved ${path} back to ${source}${entry.snapshot ? ` and restored the previous ${path}` : ''}`
+					}
+				]
+			};
+		}
+
+		const current = await readIfFile(path);
+		if (!force && await contentHash(current) !== entry.afterHash) {
+			throw new Error(`${path} has changed since #${entry.id} was recorded; undoing it would discard those changes. Pass force to undo anyway`);
+		}
+
+		const restored = entry.snapshot ? await Deno.readFile(`${directory}/snapshots/${entry.id}`) : null;
+		const change = await beginChange(env, path);
+		if (restored !== null) {
+			await Deno.writeFile(path, restored);
+		} else if (current !== null) {
+			// The file did not exist before the change
+			await Deno.remove(path);
+		}
+		await commitChange(change, { tool: 'undo_file_change', after: restored, undoes: entry.id });
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: restored !== null
+						? `Undid #${entry.id}: restored ${path} to its content before ${entry.tool}`
+						: `Undid #${entry.id}: removed ${path}, which ${entry.tool} had created`
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to undo file change: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+// Archives
+// zip, tar and tar.gz archives are parsed and built in memory without external dependencies;
+// deflate and gzip data go through the runtime's CompressionStream and DecompressionStream
+type ArchiveFormat = 'zip' | 'tar' | 'tar.gz';
+
+const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar', 'tar.gz'];
+
+interface ArchiveEntry {
+	// Path inside the archive, without a leading ./ or trailing /
+	name: string;
+	type: 'file' | 'directory' | 'symlink';
+	size: number;
+	mtime: Date;
+	mode: number | null;
+	linkTarget?: string;
+	// Decompresses the entry's content on demand
+	data: () => Promise<Uint8Array>;
+}
+
+interface ArchiveInput {
+	name: string;
+	type: 'file' | 'directory' | 'symlink';
+	mtime: Date;
+	mode: number;
+	linkTarget?: string;
+	data: Uint8Array;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+	let crc = n;
+	for (let bit = 0; bit < 8; bit++) {
+		crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+	}
+	return crc >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (const byte of data) {
+		crc = crcTable[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function pipeBytes(data: Uint8Array, transform: CompressionStream): Promise<Uint8Array> {
+	const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(transform);
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Decompress data, giving up as soon as the output passes maxSize so a small archive can't exhaust memory
+ */
+async function decompressBytes(data: Uint8Array, format: CompressionFormat, maxSize: number, label: string): Promise<Uint8Array> {
+	const reader = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(format)).getReader();
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		total += value.length;
+		if (total > maxSize) {
+			await reader.cancel();
+			throw new Error(`${label} decompresses to more than ${formatSize(maxSize)}`);
+		}
+		chunks.push(value);
+	}
+	return concatBytes(chunks);
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		result.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return result;
+}
+
+function toBase64(data: Uint8Array): string {
+	let binary = '';
+	// Spreading the whole array into fromCharCode overflows the stack for large data
+	for (let offset = 0; offset < data.length; offset += 0x8000) {
+		binary += String.fromCharCode(...data.subarray(offset, offset + 0x8000));
+	}
+	return btoa(binary);
+}
+
+function archiveFormatFromName(path: string): ArchiveFormat | null {
+	const name = path.toLowerCase();
+	if (name.endsWith('.zip')) return 'zip';
+	if (name.endsWith('.tar.gz') || name.endsWith('.tgz')) return 'tar.gz';
+	if (name.endsWith('.tar')) return 'tar';
+	return null;
+}
+
+function detectArchiveFormat(data: Uint8Array): ArchiveFormat | null {
+	if (data[0] === 0x50 && data[1] === 0x4b && (data[2] === 0x03 || data[2] === 0x05)) return 'zip';
+	if (data[0] === 0x1f && data[1] === 0x8b) return 'tar.gz';
+	if (data.length >= 512 && textDecoder.decode(data.subarray(257, 262)) === 'ustar') return 'tar';
+	return null;
+}
+
+function fromDosDateTime(date: number, time: number): Date {
+	return new Date(((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f, (time >> 11) & 0x1f, (time >> 5) & 0x3f, (time & 0x1f) * 2);
+}
+
+function toDosDateTime(mtime: Date): { date: number, time: number } {
+	// DOS timestamps cannot represent dates before 1980
+	const value = mtime.getFullYear() < 1980 ? new Date(1980, 0, 1) : mtime;
+	return {
+		date: ((value.getFullYear() - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate(),
+		time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2)
+	};
+}
+
+function parseZip(data: Uint8Array): ArchiveEntry[] {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+	// The end of central directory record sits at the end, before a comment of up to 64 KB
+	let end = -1;
+	for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+		if (view.getUint32(i, true) === 0x06054b50) {
+			end = i;
+			break;
+		}
+	}
+	if (end < 0) {
+		throw new Error("Not a valid zip archive: end of central directory not found");
+	}
+	const count = view.getUint16(end + 10, true);
+	let offset = view.getUint32(end + 16, true);
+	if (count === 0xffff || offset === 0xffffffff) {
+		throw new Error("ZIP64 archives are not supported");
+	}
+
+	const entries: ArchiveEntry[] = [];
+	for (let i = 0; i < count; i++) {
+		if (offset + 46 > data.length || view.getUint32(offset, true) !== 0x02014b50) {
+			throw new Error("Not a valid zip archive: corrupt central directory");
+		}
+		const madeBy = view.getUint16(offset + 4, true) >> 8;
+		const flags = view.getUint16(offset + 8, true);
+		const method = view.getUint16(offset + 10, true);
+		const mtime = fromDosDateTime(view.getUint16(offset + 14, true), view.getUint16(offset + 12, true));
+		const crc = view.getUint32(offset + 16, true);
+		const compressedSize = view.getUint32(offset + 20, true);
+		const size = view.getUint32(offset + 24, true);
+		const nameLength = view.getUint16(offset + 28, true);
+		const attributes = view.getUint32(offset + 38, true);
+		const localOffset = view.getUint32(offset + 42, true);
+		const rawName = textDecoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+		offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+
+		// Unix permissions and file type are only stored by archivers running on Unix
+		const unixMode = madeBy === 3 ? attributes >>> 16 : 0;
+		const type = rawName.endsWith('/') ? 'directory' : (unixMode & 0o170000) === 0o120000 ? 'symlink' : 'file';
+		const name = rawName.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+		if (!name) continue;
+
+		const load = async (): Promise<Uint8Array> => {
+			if (flags & 0x1) {
+				throw new Error(`${name} is encrypted`);
+			}
+			if (view.getUint32(localOffset, true) !== 0x04034b50) {
+				throw new Error(`Not a valid zip archive: corrupt local header for ${name}`);
+			}
+			const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+			const raw = data.subarray(start, start + compressedSize);
+
+			let content: Uint8Array;
+			if (method === 0) {
+				content = raw;
+			} else if (method === 8) {
+				// The recorded size bounds the output; anything larger is corrupt or a zip bomb
+				content = await decompressBytes(raw, 'deflate-raw', size, name);
+			} else {
+				throw new Error(`${name} uses unsupported zip compression method ${method}`);
+			}
+			if (content.length !== size || crc32(content) !== crc) {
+				throw new Error(`${name} is corrupt: size or checksum mismatch`);
+			}
+			return content;
+		};
+
+		entries.push({
+			name,
+			type,
+			size: type === 'file' ? size : 0,
+			mtime,
+			mode: unixMode ? unixMode & 0o7777 : null,
+			data: load
+		});
+	}
+	return entries;
+}
+
+// Octal tar header fields, or base-256 when the high bit of the first byte is set
+function tarNumber(field: Uint8Array): number {
+	if ((field[0] ?? 0) & 0x80) {
+		let value = (field[0] ?? 0) & 0x7f;
+		for (const byte of field.subarray(1)) {
+			value = value * 256 + byte;
+		}
+		return value;
+	}
+	const text = tarString(field).trim();
+	return text ? parseInt(text, 8) : 0;
+}
+
+function tarString(field: Uint8Array): string {
+	const nul = field.indexOf(0);
+	return textDecoder.decode(nul < 0 ? field : field.subarray(0, nul));
+}
+
+// PAX extended headers are "<length> <key>=<value>\n" records, with length counted in bytes
+function parsePaxHeader(body: Uint8Array): Record<string, string> {
+	const fields: Record<string, string> = {};
+	let offset = 0;
+	while (offset < body.length) {
+		const space = body.indexOf(0x20, offset);
+		if (space < 0) break;
+		const length = parseInt(textDecoder.decode(body.subarray(offset, space)), 10);
+		if (!length) break;
+		const record = textDecoder.decode(body.subarray(space + 1, offset + length - 1));
+		const separator = record.indexOf('=');
+		if (separator > 0) {
+			fields[record.slice(0, separator)] = record.slice(separator + 1);
+		}
+		offset += length;
+	}
+	return fields;
+}
+
+function parseTar(data: Uint8Array): ArchiveEntry[] {
+	const entries: ArchiveEntry[] = [];
+	let offset = 0;
+	// Long names and PAX attributes apply to the entry that follows them
+	let pax: Record<string, string> = {};
+	let longName: string | null = null;
+	let longLink: string | null = null;
+
+	while (offset + 512 <= data.length) {
+		const header = data.subarray(offset, offset + 512);
+		if (header.every(byte => byte === 0)) break;
+
+		const checksum = header.reduce((sum, byte, index) => sum + (index >= 148 && index < 156 ? 0x20 : byte), 0);
+		if (checksum !== tarNumber(header.subarray(148, 156))) {
+			throw new Error(`Not a valid tar archive: bad header checksum at byte ${offset}`);
+		}
+
+		const typeflag = String.fromCharCode(header[156] || 0x30);
+		const size = pax['size'] !== undefined && typeflag !== 'x' ? Number(pax['size']) : tarNumber(header.subarray(124, 136));
+		const body = data.subarray(offset + 512, offset + 512 + size);
+		offset += 512 + Math.ceil(size / 512) * 512;
+
+		if (typeflag === 'x') {
+			pax = parsePaxHeader(body);
+			continue;
+		}
+		if (typeflag === 'L' || typeflag === 'K') {
+			if (typeflag === 'L') longName = tarString(body);
+			else longLink = tarString(body);
+			continue;
+		}
+
+		const prefix = textDecoder.decode(header.subarray(257, 262)) === 'ustar' ? tarString(header.subarray(345, 500)) : '';
+		const headerName = tarString(header.subarray(0, 100));
+		const rawName = pax['path'] ?? longName ?? (prefix ? `${prefix}/${headerName}` : headerName);
+		const linkTarget = pax['linkpath'] ?? longLink ?? tarString(header.subarray(157, 257));
+		pax = {};
+		longName = null;
+		longLink = null;
+
+		// Hard links, devices, FIFOs and global PAX headers are not extracted
+		const type = typeflag === '5' ? 'directory' : typeflag === '2' ? 'symlink' : typeflag === '0' || typeflag === '7' ? 'file' : null;
+		const name = rawName.replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+		if (!type || !name) continue;
+
+		const entry: ArchiveEntry = {
+			name,
+			type,
+			size: type === 'file' ? size : 0,
+			mtime: new Date(tarNumber(header.subarray(136, 148)) * 1000),
+			mode: tarNumber(header.subarray(100, 108)) & 0o7777,
+			data: async () => body
+		};
+		if (type === 'symlink') entry.linkTarget = linkTarget;
+		entries.push(entry);
+	}
+	return entries;
+}
+
+async function readArchive(path: string): Promise<{ format: ArchiveFormat, entries: ArchiveEntry[] }> {
+	const info = await Deno.stat(path);
+	if (info.size > MAX_ARCHIVE_SIZE) {
+		throw new Error(`${path} is ${formatSize(info.size)}; archives over ${formatSize(MAX_ARCHIVE_SIZE)} are not supported`);
+	}
+
+	const data = await Deno.readFile(path);
+	const format = detectArchiveFormat(data) ?? archiveFormatFromName(path);
+	if (format === 'zip') {
+		return { format, entries: parseZip(data) };
+	}
+	if (format === 'tar') {
+		return { format, entries: parseTar(data) };
+	}
+	if (format === 'tar.gz') {
+		return { format, entries: parseTar(await decompressBytes(data, 'gzip', MAX_EXTRACTED_SIZE, path)) };
+	}
+	throw new Error(`${path} is not a zip, tar or tar.gz archive`);
+}
+
+function tarHeader(name: string, typeflag: string, size: number, mode: number, mtime: Date, linkTarget: string = ''): Uint8Array {
+	const header = new Uint8Array(512);
+	const write = (text: string, start: number, length: number) => header.set(textEncoder.encode(text).subarray(0, length), start);
+	const octal = (value: number, start: number, length: number) => write(value.toString(8).padStart(length - 1, '0'), start, length - 1);
+
+	write(name, 0, 100);
+	octal(mode, 100, 8);
+	octal(0, 108, 8);
+	octal(0, 116, 8);
+	octal(size, 124, 12);
+	octal(Math.max(0, Math.floor(mtime.getTime() / 1000)), 136, 12);
+	header.fill(0x20, 148, 156);
+	write(typeflag, 156, 1);
+	write(linkTarget, 157, 100);
+	write('ustar\u000000', 257, 8);
+
+	const checksum = header.reduce((sum, byte) => sum + byte, 0);
+	write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8);
+	return header;
+}
+
+function paxRecord(key: string, value: string): string {
+	const text = ` ${key}=${value}\n`;
+	const bytes = textEncoder.encode(text).length;
+	// The length prefix counts its own digits
+	let length = bytes + 1;
+	while (String(length).length + bytes !== length) {
+		length = String(length).length + bytes;
+	}
+	return `${length}${text}`;
+}
+
+function buildTar(inputs: ArchiveInput[]): Uint8Array {
+	const chunks: Uint8Array[] = [];
+	const pad = (size: number) => new Uint8Array((512 - (size % 512)) % 512);
+
+	for (const input of inputs) {
+		const name = input.type === 'directory' ? `${input.name}/` : input.name;
+		const linkTarget = input.linkTarget ?? '';
+
+		// Names and link targets that do not fit the ustar fields go in a PAX header
+		let records = '';
+		if (textEncoder.encode(name).length > 100) records += paxRecord('path', name);
+		if (textEncoder.encode(linkTarget).length > 100) records += paxRecord('linkpath', linkTarget);
+		if (records) {
+			const body = textEncoder.encode(records);
+			chunks.push(tarHeader(`PaxHeader/${input.name}`, 'x', body.length, 0o644, input.mtime), body, pad(body.length));
+		}
+
+		const typeflag = input.type === 'directory' ? '5' : input.type === 'symlink' ? '2' : '0';
+		const size = input.type === 'file' ? input.data.length : 0;
+		chunks.push(tarHeader(name, typeflag, size, input.mode, input.mtime, linkTarget));
+		if (size > 0) {
+			chunks.push(input.data, pad(size));
+		}
+	}
+
+	chunks.push(new Uint8Array(1024));
+	return concatBytes(chunks);
+}
+
+async function buildZip(inputs: ArchiveInput[]): Promise<Uint8Array> {
+	const chunks: Uint8Array[] = [];
+	const directory: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const input of inputs) {
+		const name = textEncoder.encode(input.type === 'directory' ? `${input.name}/` : input.name);
+		// Zip stores a symlink's target as its content
+		const content = input.type === 'symlink' ? textEncoder.encode(input.linkTarget ?? '') : input.data;
+		const crc = crc32(content);
+		const { date, time } = toDosDateTime(input.mtime);
+
+		let method = 0;
+		let stored = content;
+		if (input.type === 'file' && content.length > 0) {
+			const deflated = await pipeBytes(content, new CompressionStream('deflate-raw'));
+			if (deflated.length < content.length) {
+				method = 8;
+				stored = deflated;
+			}
+		}
+
+		const local = new Uint8Array(30 + name.length);
+		const localView = new DataView(local.buffer);
+		localView.setUint32(0, 0x04034b50, true);
+		localView.setUint16(4, 20, true);
+		// Bit 11: names are UTF-8
+		localView.setUint16(6, 0x0800, true);
+		localView.setUint16(8, method, true);
+		localView.setUint16(10, time, true);
+		localView.setUint16(12, date, true);
+		localView.setUint32(14, crc, true);
+		localView.setUint32(18, stored.length, true);
+		localView.setUint32(22, content.length, true);
+		localView.setUint16(26, name.length, true);
+		local.set(name, 30);
+
+		const fileType = input.type === 'directory' ? 0o040000 : input.type === 'symlink' ? 0o120000 : 0o100000;
+		const header = new Uint8Array(46 + name.length);
+		const headerView = new DataView(header.buffer);
+		headerView.setUint32(0, 0x02014b50, true);
+		// Made by Unix, so readers honour the mode in the external attributes
+		headerView.setUint16(4, (3 << 8) | 20, true);
+		headerView.setUint16(6, 20, true);
+		headerView.setUint16(8, 0x0800, true);
+		headerView.setUint16(10, method, true);
+		headerView.setUint16(12, time, true);
+		headerView.setUint16(14, date, true);
+		headerView.setUint32(16, crc, true);
+		headerView.setUint32(20, stored.length, true);
+		headerView.setUint32(24, content.length, true);
+		headerView.setUint16(28, name.length, true);
+		headerView.setUint32(38, (((fileType | input.mode) << 16) | (input.type === 'directory' ? 0x10 : 0)) >>> 0, true);
+		headerView.setUint32(42, offset, true);
+		header.set(name, 46);
+
+		chunks.push(local, stored);
+		directory.push(header);
+		offset += local.length + stored.length;
+	}
+
+	const directorySize = directory.reduce((sum, header) => sum + header.length, 0);
+	if (inputs.length > 0xfffe || offset + directorySize > 0xfffffffe) {
+		throw new Error("Too many entries or too much data for a zip archive; use tar or tar.gz");
+	}
+
+	const end = new Uint8Array(22);
+	const endView = new DataView(end.buffer);
+	endView.setUint32(0, 0x06054b50, true);
+	endView.setUint16(8, inputs.length, true);
+	endView.setUint16(10, inputs.length, true);
+	endView.setUint32(12, directorySize, true);
+	endView.setUint32(16, offset, true);
+
+	return concatBytes([...chunks, ...directory, end]);
+}
+
+// Add a path and, for directories, everything below it; symlinks are stored rather than followed
+async function collectArchiveInputs(path: string, name: string, inputs: ArchiveInput[], skip: string[]): Promise<void> {
+	const info = await Deno.lstat(path);
+	const mtime = info.mtime ?? new Date();
+	const mode = (info.mode ?? 0o644) & 0o7777;
+
+	if (info.isSymlink) {
+		inputs.push({ name, type: 'symlink', mtime, mode, linkTarget: await Deno.readLink(path), data: new Uint8Array() });
+		return;
+	}
+	if (info.isDirectory) {
+		inputs.push({ name, type: 'directory', mtime, mode, data: new Uint8Array() });
+		const children: string[] = [];
+		for await (const entry of Deno.readDir(path)) {
+			children.push(entry.name);
+		}
+		for (const child of children.sort()) {
+			// Never add the archive being written to itself, nor the change history
+			if (skip.includes(`${path}/${child}`)) continue;
+			await collectArchiveInputs(`${path}/${child}`, `${name}/${child}`, inputs, skip);
+		}
+		return;
+	}
+
+	const total = inputs.reduce((sum, input) => sum + input.data.length, 0);
+	if (total + info.size > MAX_ARCHIVE_SIZE) {
+		throw new Error(`The paths contain more than ${formatSize(MAX_ARCHIVE_SIZE)}, the largest archive supported`);
+	}
+	inputs.push({ name, type: 'file', mtime, mode, data: await Deno.readFile(path) });
+}
+
+export async function list_archive(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const path = await resolvePath(request.path, env);
+		const { format, entries } = await readArchive(path);
+
+		const formattedEntries = entries.map(entry => {
+			const prefix = entry.type === 'directory' ? "[DIR] " : entry.type === 'symlink' ? "[LINK]" : "[FILE]";
+			const name = entry.type === 'directory' ? `${entry.name}/` : entry.linkTarget ? `${entry.name} -> ${entry.linkTarget}` : entry.name;
+			const sizeStr = entry.type === 'file' ? formatSize(entry.size) : '';
+			return `${prefix} ${name.padEnd(40)} ${sizeStr.padStart(10)}  ${entry.mtime.toISOString()}`;
+		});
+
+		const files = entries.filter(entry => entry.type === 'file');
+		const totalDirs = entries.filter(entry => entry.type === 'directory').length;
+		const totalLinks = entries.filter(entry => entry.type === 'symlink').length;
+		const summary = [
+			"",
+			`Total: ${files.length} files, ${totalDirs} directories${totalLinks > 0 ? `, ${totalLinks} symlinks` : ''} (${format})`,
+			`Combined size: ${formatSize(files.reduce((sum, entry) => sum + entry.size, 0))}`
+		];
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: [...formattedEntries, ...summary].join("\n")
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to list archive: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function read_archive_entry(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { encoding = 'text' } = request;
+		const path = await resolvePath(request.path, env);
+		const name = String(request.entry).replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+
+		const { entries } = await readArchive(path);
+		const entry = entries.find(candidate => candidate.name === name);
+		if (!entry) {
+			throw new Error(`No entry ${name} in ${path}; use list-archive to see its entries`);
+		}
+		if (entry.type === 'directory') {
+			throw new Error(`${name} is a directory`);
+		}
+		// Checked before decompressing, since zip entries can declare up to 4 GB
+		if (entry.size > MAX_BYTE_RANGE) {
+			throw new Error(`${name} is ${formatSize(entry.size)}; entries over ${formatSize(MAX_BYTE_RANGE)} cannot be read directly, use extract-archive instead`);
+		}
+
+		const data = await entry.data();
+		if (encoding === 'base64') {
+			return {
+				content: [
+					{
+						type: "text",
+						text: JSON.stringify({ data: toBase64(data), size: data.length }, null, 2)
+					}
+				]
+			};
+		}
+		if (isBinary(data)) {
+			throw new Error(`${name} appears to be binary; read it with encoding "base64"`);
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: textDecoder.decode(data)
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to read archive entry: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function extract_archive(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { overwrite = false, includePatterns = [] } = request;
+		const path = await resolvePath(request.path, env);
+		const destination = await resolvePath(request.destination, env);
+
+		const { entries } = await readArchive(path);
+		const selected = entries.filter(entry => includePatterns.length === 0 || matchesGlobList(entry.name, includePatterns));
+		const totalSize = selected.reduce((sum, entry) => sum + entry.size, 0);
+		if (totalSize > MAX_EXTRACTED_SIZE) {
+			throw new Error(`The entries add up to ${formatSize(totalSize)}; extracting more than ${formatSize(MAX_EXTRACTED_SIZE)} is not supported`);
+		}
+
+		// Check every target before writing anything
+		const targets: Array<{ entry: ArchiveEntry, target: string }> = [];
+		const existing: string[] = [];
+		for (const entry of selected) {
+			const target = normalizePath(`${destination}/${entry.name}`);
+			if (!isWithin(target, [destination]) || target === destination) {
+				throw new Error(`Refusing to extract ${entry.name}: it would be written outside ${destination}`);
+			}
+			await resolvePath(target, env);
+			if (!overwrite && entry.type !== 'directory') {
+				try {
+					await Deno.lstat(target);
+					existing.push(entry.name);
+				} catch (error) {
+					if (!(error instanceof Deno.errors.NotFound)) throw error;
+				}
+			}
+			targets.push({ entry, target });
+		}
+		if (existing.length > 0) {
+			throw new Error(`${existing.length} entries already exist in ${destination} (${existing.slice(0, 5).join(', ')}${existing.length > 5 ? ', ...' : ''}); pass overwrite to replace them`);
+		}
+
+		const skipped: string[] = [];
+		let extracted = 0;
+		await Deno.mkdir(destination, { recursive: true });
+		for (const { entry, target } of targets) {
+			// Resolve the parent again now that earlier entries exist, so a symlink in the archive cannot
+			// redirect later ones; the entry itself is not followed, so existing symlinks are replaced
+			const resolved = await resolveEntryPath(target, env);
+			if (!isWithin(resolved, [destination])) {
+				skipped.push(`${entry.name} (resolves outside the destination)`);
+				continue;
+			}
+
+			if (entry.type === 'directory') {
+				await Deno.mkdir(resolved, { recursive: true });
+				extracted++;
+				continue;
+			}
+
+			await Deno.mkdir(resolved.slice(0, resolved.lastIndexOf('/')) || '/', { recursive: true });
+			if (entry.type === 'symlink') {
+				const linkTarget = entry.linkTarget ?? textDecoder.decode(await entry.data());
+				const linked = normalizePath(linkTarget.startsWith('/') ? linkTarget : `${target.slice(0, target.lastIndexOf('/'))}/${linkTarget}`);
+				if (!isWithin(linked, [destination])) {
+					skipped.push(`${entry.name} (symlink to ${linkTarget} points outside the destination)`);
+					continue;
+				}
+				await Deno.remove(resolved).catch(() => {});
+				await Deno.symlink(linkTarget, resolved);
+			} else {
+				if ((await Deno.lstat(resolved).catch(() => null))?.isSymlink) {
+					await Deno.remove(resolved);
+				}
+				await Deno.writeFile(resolved, await entry.data());
+				if (entry.mode !== null) await Deno.chmod(resolved, entry.mode & 0o777);
+			}
+			extracted++;
+		}
+
+		const lines = [`Extracted ${extracted} entries (${formatSize(totalSize)}) from ${path} to ${destination}`];
+		if (skipped.length > 0) {
+			lines.push("", `Skipped ${skipped.length} entries:`, ...skipped.map(entry => `  ${entry}`));
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: lines.join("\n")
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to extract archive: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+export async function create_archive(request: any, env: Environment): Promise<MCPResult> {
+	try {
+		const { paths, overwrite = false } = request;
+		const destination = await resolvePath(request.destination, env);
+		if (request.format !== undefined && !ARCHIVE_FORMATS.includes(request.format)) {
+			throw new Error(`Unsupported archive format ${JSON.stringify(request.format)}; use ${ARCHIVE_FORMATS.join(', ')}`);
+		}
+		const format: ArchiveFormat | null = request.format ?? archiveFormatFromName(destination);
+		if (!format) {
+			throw new Error(`Cannot tell the archive format from ${destination}; name it .zip, .tar, .tar.gz or .tgz, or pass format`);
+		}
+		if (!overwrite) {
+			try {
+				await Deno.lstat(destination);
+				throw new Error(`${destination} already exists; pass overwrite to replace it`);
+			} catch (error) {
+				if (!(error instanceof Deno.errors.NotFound)) throw error;
+			}
+		}
+
+		// Each path is stored under its own name, like tar -C <parent> <name>
+		const inputs: ArchiveInput[] = [];
+		const names = new Set<string>();
+		const skip = [destination, await historyDirectory(env)];
+		for (const requested of paths) {
+			const source = await resolvePath(requested, env);
+			const name = source.slice(source.lastIndexOf('/') + 1);
+			if (!name) {
+				throw new Error(`Cannot archive the root directory ${source}`);
+			}
+			if (names.has(name)) {
+				throw new Error(`More than one path would be stored as ${name}`);
+			}
+			names.add(name);
+			await collectArchiveInputs(source, name, inputs, skip);
+		}
+
+		const data = format === 'zip'
+			? await buildZip(inputs)
+			: format === 'tar'
+				? buildTar(inputs)
+				: await pipeBytes(buildTar(inputs), new CompressionStream('gzip'));
+		await Deno.writeFile(destination, data);
+
+		const files = inputs.filter(input => input.type === 'file').length;
+		const directories = inputs.filter(input => input.type === 'directory').length;
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Created ${format} archive ${destination} (${formatSize(data.length)}) with ${files} files and ${directories} directories`
+				}
+			]
+		};
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Failed to create archive: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
@@ -11,9 +11,57 @@ interface MCPResult {
 
 // Knowledge Graph interfaces
 interface Entity {
+	name: string;
+	entityType: string;
+	observations: Observation[];
+}
+
+// A fact about an entity; timestamps are null for observations stored before they were tracked
+interface Observation {
+	content: string;
+	createdAt: string | null;
+	updatedAt: string | null;
+	// Where the fact came from, e.g. a conversation or document id
+	source?: string;
+	// How sure the writer was, between 0 and 1
+	confidence?: number;
+	// Content of the observation this one replaced, and of the one that replaced it
+	supersedes?: string;
+	supersededBy?: string;
+}
+
+// Observations may be given as plain strings or with their provenance
+type ObservationInput = string | {
+	content: string;
+	source?: string;
+	confidence?: number;
+	supersedes?: string;
+};
+
+// One entry of the observation change log, stored in its own state key
+interface ObservationChange {
+	timestamp: string;
+	entityName: string;
+	action: 'entity-created' | 'added' | 'confirmed' | 'reinstated' | 'superseded' | 'deleted' | 'entity-deleted';
+	content?: string;
+	// The observation that replaced content, for superseded entries
+	replacement?: string;
+	source?: string;
+	confidence?: number;
+}
+
+// Entities as stored and returned: observations stays the upstream list of strings (the current
+// observations), with timestamps, provenance and superseded observations kept beside it
+interface StoredEntity {
 	name: string;
 	entityType: string;
 	observations: string[];
+	observationDetails?: Observation[];
+}
+
+interface StoredGraph {
+	entities: StoredEntity[];
+	relations: Relation[];
 }
 
 interface Relation {
@@ -29,7 +77,11 @@ interface KnowledgeGraph {
 
 // Input interfaces based on the manifest input_schema
 interface CreateEntitiesRequest {
-	entities: Entity[];
+	entities: {
+		name: string;
+		entityType: string;
+		observations: ObservationInput[];
+	}[];
 }
 
 interface CreateRelationsRequest {
@@ -39,7 +91,10 @@ interface CreateRelationsRequest {
 interface AddObservationsRequest {
 	observations: {
 		entityName: string;
-		contents: string[];
+		contents: ObservationInput[];
+		// Defaults for contents given as plain strings
+		source?: string;
+		confidence?: number;
 	}[];
 }
 
@@ -64,25 +119,287 @@ interface ReadGraphRequest {
 
 interface SearchNodesRequest {
 	query: string;
+	limit?: number;
+	fuzzy?: boolean;
+}
+
+// One condition of a search query; type and name clauses filter without affecting the score
+interface SearchClause {
+	kind: 'term' | 'phrase' | 'type' | 'name';
+	value: string;
+	tokens: string[];
+}
+
+// An entity prepared for ranking
+interface SearchDocument {
+	entity: Entity;
+	// Field-weighted token counts over the name, type and observations
+	frequencies: Map<string, number>;
+	length: number;
+	// Token sequences of each field, for phrase matching
+	fields: string[][];
+}
+
+type GraphFormat = 'jsonl' | 'jsonld' | 'graphml';
+
+// What to do when an imported entity already exists
+type ImportStrategy = 'skip' | 'overwrite' | 'merge';
+
+interface ExportGraphRequest {
+	format?: GraphFormat;
+	entityTypes?: string[];
+}
+
+interface ImportGraphRequest {
+	data: string;
+	format?: GraphFormat;
+	strategy?: ImportStrategy;
+	source?: string;
+}
+
+interface GetEntityHistoryRequest {
+	entityName: string;
+	limit?: number;
 }
 
 interface OpenNodesRequest {
 	names: string[];
 }
 
+// Optional ontology for the graph, stored in its own state key
+interface EntityTypeSchema {
+	name: string;
+	description?: string;
+	// Observation keys every entity of this type must have, as "key: value" observations
+	requiredKeys: string[];
+}
+
+type RelationCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+interface RelationTypeSchema {
+	name: string;
+	description?: string;
+	// Entity types allowed at each end; empty allows any type
+	fromTypes: string[];
+	toTypes: string[];
+	cardinality: RelationCardinality;
+}
+
+interface GraphSchema {
+	entityTypes: EntityTypeSchema[];
+	relationTypes: RelationTypeSchema[];
+	// Reject entity and relation types that are not declared
+	strict: boolean;
+}
+
+interface SchemaViolation {
+	// The entity, relation or node and the rule it breaks, without the type and key names a migration can rename
+	subject: string;
+	message: string;
+}
+
+interface DefineSchemaRequest {
+	entityTypes?: Partial<EntityTypeSchema>[];
+	relationTypes?: Partial<RelationTypeSchema>[];
+	strict?: boolean;
+	force?: boolean;
+}
+
+interface ListSchemaRequest {
+	// No properties needed
+}
+
+interface SchemaMigration {
+	op: 'renameEntityType' | 'renameRelationType' | 'renameKey' | 'removeEntityType' | 'removeRelationType';
+	from?: string;
+	to?: string;
+	entityType?: string;
+	name?: string;
+}
+
+interface MigrateSchemaRequest {
+	operations: SchemaMigration[];
+	force?: boolean;
+}
+
+type TraversalDirection = 'outgoing' | 'incoming' | 'both';
+
+type PathMode = 'shortest' | 'all';
+
+interface GetNeighborsRequest {
+	name: string;
+	depth?: number;
+	relationTypes?: string[];
+	direction?: TraversalDirection;
+}
+
+interface FindPathsRequest {
+	from: string;
+	to: string;
+	mode?: PathMode;
+	maxLength?: number;
+	relationTypes?: string[];
+	direction?: TraversalDirection;
+	limit?: number;
+}
+
+interface SubgraphRequest {
+	names: string[];
+	depth?: number;
+	relationTypes?: string[];
+	direction?: TraversalDirection;
+}
+
+// A relation seen from one of its ends
+interface Edge {
+	relation: Relation;
+	neighbor: string;
+}
+
+interface GraphPath {
+	entities: string[];
+	relations: Relation[];
+}
+
+// BM25 parameters: term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A term in an entity's name or type counts for more than a mention in an observation
+const NAME_WEIGHT = 3;
+const TYPE_WEIGHT = 2;
+
+// Number of search results returned when no limit is given
+const DEFAULT_SEARCH_LIMIT = 20;
+
+// Upper bounds on traversal depth and path length, to keep responses and search time bounded
+const MAX_TRAVERSAL_DEPTH = 5;
+const MAX_PATH_LENGTH = 6;
+
+// Number of paths find_paths returns when no limit is given
+const DEFAULT_PATH_LIMIT = 10;
+
+// Relations find_paths may examine in 'all' mode before returning what it has found
+const MAX_PATH_SEARCH_STEPS = 100000;
+
+// Validation errors listed in one response before the rest are summarized
+const MAX_LISTED_VIOLATIONS = 20;
+
+const CARDINALITIES: RelationCardinality[] = ['one-to-one', 'one-to-many', 'many-to-one', 'many-to-many'];
+
+// Entries kept in the observation change log; the oldest are dropped first
+const MAX_HISTORY_ENTRIES = 5000;
+
+// Number of history entries get_entity_history returns when no limit is given
+const DEFAULT_HISTORY_LIMIT = 50;
+
+const GRAPH_FORMATS: GraphFormat[] = ['jsonl', 'jsonld', 'graphml'];
+const IMPORT_STRATEGIES: ImportStrategy[] = ['skip', 'overwrite', 'merge'];
+const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ['outgoing', 'incoming', 'both'];
+const PATH_MODES: PathMode[] = ['shortest', 'all'];
+
+// Vocabulary for JSON-LD exports; entities are identified by their URL-encoded name
+const JSONLD_VOCABULARY = 'urn:mcp:memory:';
+const JSONLD_CONTEXT = {
+	'@vocab': JSONLD_VOCABULARY,
+	from: { '@type': '@id' },
+	to: { '@type': '@id' },
+	createdAt: { '@type': 'http://www.w3.org/2001/XMLSchema#dateTime' },
+	updatedAt: { '@type': 'http://www.w3.org/2001/XMLSchema#dateTime' }
+};
+
 // In-memory storage for the knowledge graph
 let templateKnowledgeGraph: KnowledgeGraph = {
 	entities: [],
 	relations: []
 };
 
+/**
+ * Load the graph, pairing each stored observation with its details
+ * Observations without details, such as those stored by earlier versions, get unknown timestamps
+ */
+function loadGraph(env: Environment): KnowledgeGraph {
+	const graph = getState(env, "knowledgeGraph") as StoredGraph ?? templateKnowledgeGraph;
+	return {
+		relations: graph.relations,
+		entities: graph.entities.map(entity => {
+			const listed = new Set(entity.observations);
+			// Details of a current observation that is no longer listed were removed by a client unaware of them
+			const details = (entity.observationDetails ?? []).filter(observation => observation.supersededBy || listed.has(observation.content));
+			const known = new Set(details.map(observation => observation.content));
+			const untracked = entity.observations
+				.filter(content => !known.has(content))
+				.map(content => ({ content, createdAt: null, updatedAt: null }));
+			return { name: entity.name, entityType: entity.entityType, observations: [...details, ...untracked] };
+		})
+	};
+}
+
+function toStoredEntity(entity: Entity): StoredEntity {
+	return {
+		name: entity.name,
+		entityType: entity.entityType,
+		observations: currentObservations(entity).map(observation => observation.content),
+		observationDetails: entity.observations
+	};
+}
+
+function toStoredGraph(graph: KnowledgeGraph): StoredGraph {
+	return { entities: graph.entities.map(toStoredEntity), relations: graph.relations };
+}
+
+/**
+ * Build an observation from tool input, falling back to the given source and confidence
+ */
+function toObservation(input: ObservationInput, timestamp: string, source?: string, confidence?: number): Observation {
+	const fields = typeof input === 'string' ? { content: input } : input;
+	if (typeof fields.content !== 'string' || !fields.content.trim()) {
+		throw new Error('Each observation must have non-empty content');
+	}
+	const observation: Observation = { content: fields.content, createdAt: timestamp, updatedAt: timestamp };
+	const observationSource = fields.source ?? source;
+	const observationConfidence = fields.confidence ?? confidence;
+	if (observationSource !== undefined) {
+		observation.source = observationSource;
+	}
+	if (observationConfidence !== undefined) {
+		if (typeof observationConfidence !== 'number' || observationConfidence < 0 || observationConfidence > 1) {
+			throw new Error(`Confidence must be a number between 0 and 1, got ${observationConfidence}`);
+		}
+		observation.confidence = observationConfidence;
+	}
+	return observation;
+}
+
+/**
+ * Observations that have not been superseded
+ */
+function currentObservations(entity: Entity): Observation[] {
+	return entity.observations.filter(observation => !observation.supersededBy);
+}
+
+/**
+ * Append to the observation change log, dropping the oldest entries past the cap
+ */
+function recordChanges(env: Environment, changes: ObservationChange[]): void {
+	if (changes.length === 0) {
+		return;
+	}
+	const log = getState(env, "observationHistory") as ObservationChange[] ?? [];
+	const updated = [...log, ...changes].slice(-MAX_HISTORY_ENTRIES);
+	if (!setState(env, "observationHistory", updated)) {
+		console.log("State was not set, check logs for the error");
+	}
+}
+
 /**
  * Create multiple new entities in the knowledge graph
  */
 function create_entities(request: CreateEntitiesRequest, env: Environment): MCPResult {
 	try {
 		console.log("Knowledge graph loading -> ");
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		const storedGraph = loadGraph(env);
+		let knowledgeGraph = structuredClone(storedGraph);
 		console.log("Knowledge graph loaded -> ", knowledgeGraph);
 		const { entities } = request;
 
@@ -90,20 +407,40 @@ function create_entities(request: CreateEntitiesRequest, env: Environment): MCPR
 			throw new Error('entities parameter is required and must be an array');
 		}
 
+		const timestamp = new Date().toISOString();
+
 		// Filter out entities that already exist
-		const newEntities = entities.filter(entity => {
+		const newEntities: Entity[] = entities.filter(entity => {
 			if (!entity.name || !entity.entityType || !Array.isArray(entity.observations)) {
 				throw new Error('Each entity must have name, entityType, and observations array');
 			}
 			return !knowledgeGraph.entities.some(existing => existing.name === entity.name);
-		});
+		}).map(entity => ({
+			name: entity.name,
+			entityType: entity.entityType,
+			observations: entity.observations
+				.map(input => toObservation(input, timestamp))
+				.filter((observation, index, all) => all.findIndex(other => other.content === observation.content) === index)
+		}));
 
 		// Add new entities to the graph
 		knowledgeGraph.entities.push(...newEntities);
 
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		enforceSchema(env, storedGraph, knowledgeGraph);
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
+		recordChanges(env, newEntities.flatMap(entity => [
+			{ timestamp, entityName: entity.name, action: 'entity-created' as const },
+			...entity.observations.map(observation => ({
+				timestamp,
+				entityName: entity.name,
+				action: 'added' as const,
+				content: observation.content,
+				source: observation.source,
+				confidence: observation.confidence
+			}))
+		]));
 
 		const summary = newEntities.length > 0
 			? `Created ${newEntities.length} new entities: ${newEntities.map(e => e.name).join(', ')}`
@@ -113,7 +450,7 @@ function create_entities(request: CreateEntitiesRequest, env: Environment): MCPR
 			content: [
 				{
 					type: "text",
-					text: `${summary}\n\nCreated entities:\n${JSON.stringify(newEntities, null, 2)}`
+					text: `${summary}\n\nCreated entities:\n${JSON.stringify(newEntities.map(toStoredEntity), null, 2)}`
 				}
 			]
 		};
@@ -137,7 +474,8 @@ function create_entities(request: CreateEntitiesRequest, env: Environment): MCPR
  */
 function create_relations(request: CreateRelationsRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		const storedGraph = loadGraph(env);
+		let knowledgeGraph = structuredClone(storedGraph);
 		const { relations } = request;
 
 		if (!relations || !Array.isArray(relations)) {
@@ -172,7 +510,8 @@ function create_relations(request: CreateRelationsRequest, env: Environment): MC
 		// Add new relations to the graph
 		knowledgeGraph.relations.push(...newRelations);
 
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		enforceSchema(env, storedGraph, knowledgeGraph);
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
 
@@ -207,7 +546,8 @@ function create_relations(request: CreateRelationsRequest, env: Environment): MC
  */
 function add_observations(request: AddObservationsRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		const storedGraph = loadGraph(env);
+		let knowledgeGraph = structuredClone(storedGraph);
 
 		const { observations } = request;
 
@@ -215,7 +555,9 @@ function add_observations(request: AddObservationsRequest, env: Environment): MC
 			throw new Error('observations parameter is required and must be an array');
 		}
 
-		const results: { entityName: string; addedObservations: string[] }[] = [];
+		const timestamp = new Date().toISOString();
+		const changes: ObservationChange[] = [];
+		const results: { entityName: string; addedObservations: string[]; confirmedObservations: string[]; reinstatedObservations: string[]; supersededObservations: string[] }[] = [];
 
 		observations.forEach(obs => {
 			if (!obs.entityName || !Array.isArray(obs.contents)) {
@@ -227,25 +569,77 @@ function add_observations(request: AddObservationsRequest, env: Environment): MC
 				throw new Error(`Entity '${obs.entityName}' not found`);
 			}
 
-			// Filter out observations that already exist
-			const newObservations = obs.contents.filter(content =>
-				!entity.observations.includes(content)
-			);
+			const result = { entityName: obs.entityName, addedObservations: [] as string[], confirmedObservations: [] as string[], reinstatedObservations: [] as string[], supersededObservations: [] as string[] };
+
+			for (const input of obs.contents) {
+				const observation = toObservation(input, timestamp, obs.source, obs.confidence);
+				const change = { timestamp, entityName: entity.name, content: observation.content, source: observation.source, confidence: observation.confidence };
+
+				// Restating an existing observation refreshes it rather than adding a duplicate
+				const existing = entity.observations.find(o => o.content === observation.content);
+				if (existing) {
+					existing.updatedAt = timestamp;
+					if (observation.source !== undefined) existing.source = observation.source;
+					if (observation.confidence !== undefined) existing.confidence = observation.confidence;
+					// Restating a superseded observation makes it current again
+					if (existing.supersededBy) {
+						const replacement = entity.observations.find(o => o.content === existing.supersededBy);
+						if (replacement?.supersedes === existing.content) {
+							delete replacement.supersedes;
+						}
+						delete existing.supersededBy;
+						result.reinstatedObservations.push(observation.content);
+						changes.push({ ...change, action: 'reinstated' });
+						continue;
+					}
+					result.confirmedObservations.push(observation.content);
+					changes.push({ ...change, action: 'confirmed' });
+					continue;
+				}
+
+				const supersedes = typeof input === 'string' ? undefined : input.supersedes;
+				if (supersedes !== undefined) {
+					const previous = entity.observations.find(o => o.content === supersedes);
+					if (!previous) {
+						throw new Error(`Observation '${supersedes}' to supersede not found on entity '${entity.name}'`);
+					}
+					if (previous.supersededBy) {
+						throw new Error(`Observation '${supersedes}' on entity '${entity.name}' is already superseded by '${previous.supersededBy}'`);
+					}
+					previous.supersededBy = observation.content;
+					previous.updatedAt = timestamp;
+					observation.supersedes = supersedes;
+					result.supersededObservations.push(supersedes);
+					changes.push({ timestamp, entityName: entity.name, action: 'superseded', content: supersedes, replacement: observation.content });
+				}
 
-			// Add new observations
-			entity.observations.push(...newObservations);
+				entity.observations.push(observation);
+				result.addedObservations.push(observation.content);
+				changes.push({ ...change, action: 'added' });
+			}
 
-			results.push({
-				entityName: obs.entityName,
-				addedObservations: newObservations
-			});
+			results.push(result);
 		});
 
 		const totalAdded = results.reduce((sum, r) => sum + r.addedObservations.length, 0);
-		const summary = `Added ${totalAdded} new observations across ${results.length} entities`;
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		const totalSuperseded = results.reduce((sum, r) => sum + r.supersededObservations.length, 0);
+		const totalConfirmed = results.reduce((sum, r) => sum + r.confirmedObservations.length, 0);
+		const totalReinstated = results.reduce((sum, r) => sum + r.reinstatedObservations.length, 0);
+		let summary = `Added ${totalAdded} new observations across ${results.length} entities`;
+		if (totalSuperseded > 0) {
+			summary += `, superseding ${totalSuperseded}`;
+		}
+		if (totalConfirmed > 0) {
+			summary += `\nRefreshed ${totalConfirmed} observations that already existed`;
+		}
+		if (totalReinstated > 0) {
+			summary += `\nReinstated ${totalReinstated} superseded observations as current`;
+		}
+		enforceSchema(env, storedGraph, knowledgeGraph);
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
+		recordChanges(env, changes);
 		return {
 			content: [
 				{
@@ -273,7 +667,7 @@ function add_observations(request: AddObservationsRequest, env: Environment): MC
  */
 function delete_entities(request: DeleteEntitiesRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		let knowledgeGraph = loadGraph(env);
 
 		const { entityNames } = request;
 
@@ -284,6 +678,9 @@ function delete_entities(request: DeleteEntitiesRequest, env: Environment): MCPR
 		const initialEntityCount = knowledgeGraph.entities.length;
 		const initialRelationCount = knowledgeGraph.relations.length;
 
+		const timestamp = new Date().toISOString();
+		const removedNames = knowledgeGraph.entities.filter(entity => entityNames.includes(entity.name)).map(entity => entity.name);
+
 		// Remove entities
 		knowledgeGraph.entities = knowledgeGraph.entities.filter(
 			entity => !entityNames.includes(entity.name)
@@ -296,9 +693,10 @@ function delete_entities(request: DeleteEntitiesRequest, env: Environment): MCPR
 
 		const deletedEntities = initialEntityCount - knowledgeGraph.entities.length;
 		const deletedRelations = initialRelationCount - knowledgeGraph.relations.length;
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
+		recordChanges(env, removedNames.map(entityName => ({ timestamp, entityName, action: 'entity-deleted' as const })));
 		return {
 			content: [
 				{
@@ -326,7 +724,8 @@ function delete_entities(request: DeleteEntitiesRequest, env: Environment): MCPR
  */
 function delete_observations(request: DeleteObservationsRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		const storedGraph = loadGraph(env);
+		let knowledgeGraph = structuredClone(storedGraph);
 
 		const { deletions } = request;
 
@@ -334,6 +733,8 @@ function delete_observations(request: DeleteObservationsRequest, env: Environmen
 			throw new Error('deletions parameter is required and must be an array');
 		}
 
+		const timestamp = new Date().toISOString();
+		const changes: ObservationChange[] = [];
 		let totalDeleted = 0;
 
 		deletions.forEach(deletion => {
@@ -343,17 +744,30 @@ function delete_observations(request: DeleteObservationsRequest, env: Environmen
 
 			const entity = knowledgeGraph.entities.find(e => e.name === deletion.entityName);
 			if (entity) {
-				const initialCount = entity.observations.length;
+				const removed = entity.observations.filter(obs => deletion.observations.includes(obs.content));
 				entity.observations = entity.observations.filter(
-					obs => !deletion.observations.includes(obs)
+					obs => !deletion.observations.includes(obs.content)
 				);
-				totalDeleted += initialCount - entity.observations.length;
+				// Deleting a replacement makes the observation it superseded current again
+				for (const observation of entity.observations) {
+					if (observation.supersededBy && deletion.observations.includes(observation.supersededBy)) {
+						delete observation.supersededBy;
+						observation.updatedAt = timestamp;
+					}
+					if (observation.supersedes && deletion.observations.includes(observation.supersedes)) {
+						delete observation.supersedes;
+					}
+				}
+				totalDeleted += removed.length;
+				changes.push(...removed.map(observation => ({ timestamp, entityName: entity.name, action: 'deleted' as const, content: observation.content })));
 			}
 		});
 
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		enforceSchema(env, storedGraph, knowledgeGraph);
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
+		recordChanges(env, changes);
 
 		return {
 			content: [
@@ -382,7 +796,7 @@ function delete_observations(request: DeleteObservationsRequest, env: Environmen
  */
 function delete_relations(request: DeleteRelationsRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		let knowledgeGraph = loadGraph(env);
 
 		const { relations } = request;
 
@@ -402,7 +816,7 @@ function delete_relations(request: DeleteRelationsRequest, env: Environment): MC
 		);
 
 		const deletedCount = initialCount - knowledgeGraph.relations.length;
-		if (!setState(env, "knowledgeGraph", knowledgeGraph)) {
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
 			console.log("State was not set, check logs for the error");
 		}
 		return {
@@ -432,7 +846,7 @@ function delete_relations(request: DeleteRelationsRequest, env: Environment): MC
  */
 function read_graph(request: ReadGraphRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		let knowledgeGraph = loadGraph(env);
 		console.log("Knowledge graph loaded in read_graph -> ", knowledgeGraph);
 
 		const summary = `Knowledge Graph Summary:\n• ${knowledgeGraph.entities.length} entities\n• ${knowledgeGraph.relations.length} relations`;
@@ -441,7 +855,7 @@ function read_graph(request: ReadGraphRequest, env: Environment): MCPResult {
 			content: [
 				{
 					type: "text",
-					text: `${summary}\n\nComplete Knowledge Graph:\n${JSON.stringify(knowledgeGraph, null, 2)}`
+					text: `${summary}\n\nComplete Knowledge Graph:\n${JSON.stringify(toStoredGraph(knowledgeGraph), null, 2)}`
 				}
 			]
 		};
@@ -459,12 +873,143 @@ function read_graph(request: ReadGraphRequest, env: Environment): MCPResult {
 	}
 }
 
+/**
+ * Split text into lowercase word tokens
+ */
+function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+/**
+ * Parse a query into groups of clauses separated by OR; clauses within a group must all match.
+ * Quoted text is a phrase, type:value and name:value are filters, everything else a term
+ */
+function parseSearchQuery(query: string): SearchClause[][] {
+	const groups: SearchClause[][] = [[]];
+	const pattern = /(\w+):"([^"]*)"|(\w+):(\S+)|"([^"]*)"|(\S+)/g;
+
+	for (const match of query.matchAll(pattern)) {
+		const group = groups[groups.length - 1];
+		const field = (match[1] ?? match[3])?.toLowerCase();
+		const fieldValue = match[2] ?? match[4];
+		if ((field === 'type' || field === 'name') && fieldValue !== undefined) {
+			group.push({ kind: field, value: fieldValue, tokens: tokenize(fieldValue) });
+			continue;
+		}
+
+		const quoted = match[5] !== undefined;
+		const text = match[5] ?? match[0];
+		if (!quoted && (text === 'OR' || text === '|')) {
+			groups.push([]);
+			continue;
+		}
+		if (!quoted && text === 'AND') {
+			continue;
+		}
+
+		const tokens = tokenize(text);
+		if (tokens.length > 0) {
+			// Words joined by punctuation, like postgres-14, are matched as a phrase
+			group.push({ kind: quoted || tokens.length > 1 ? 'phrase' : 'term', value: text, tokens });
+		}
+	}
+
+	return groups.filter(group => group.length > 0);
+}
+
+/**
+ * Levenshtein distance between two strings, or max + 1 once it exceeds max
+ */
+function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) {
+		return max + 1;
+	}
+
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMinimum = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+			rowMinimum = Math.min(rowMinimum, current[j]);
+		}
+		if (rowMinimum > max) {
+			return max + 1;
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+/**
+ * Vocabulary tokens a query term matches, weighted by how closely: exact matches count fully,
+ * prefixes and typos within one or two edits (depending on the term's length) count partially
+ */
+function expandTerm(term: string, vocabulary: Set<string>, fuzzy: boolean): Map<string, number> {
+	const expansions = new Map<string, number>();
+	if (vocabulary.has(term)) {
+		expansions.set(term, 1);
+	}
+	if (!fuzzy) {
+		return expansions;
+	}
+
+	const maxEdits = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+	for (const token of vocabulary) {
+		if (token === term) {
+			continue;
+		}
+		if (term.length >= 3 && token.startsWith(term)) {
+			expansions.set(token, 0.8);
+		} else if (maxEdits > 0 && editDistance(term, token, maxEdits) <= maxEdits) {
+			expansions.set(token, 0.6);
+		}
+	}
+	return expansions;
+}
+
+function buildSearchDocument(entity: Entity): SearchDocument {
+	const frequencies = new Map<string, number>();
+	const fields = [tokenize(entity.name), tokenize(entity.entityType), ...currentObservations(entity).map(observation => tokenize(observation.content))];
+
+	fields.forEach((tokens, index) => {
+		const weight = index === 0 ? NAME_WEIGHT : index === 1 ? TYPE_WEIGHT : 1;
+		for (const token of tokens) {
+			frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+		}
+	});
+
+	return {
+		entity,
+		frequencies,
+		length: fields.reduce((sum, tokens) => sum + tokens.length, 0),
+		fields
+	};
+}
+
+function containsPhrase(tokens: string[], phrase: string[]): boolean {
+	for (let i = 0; i + phrase.length <= tokens.length; i++) {
+		if (phrase.every((token, offset) => tokens[i + offset] === token)) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Wrap the words of text that are among the matched tokens in **bold**
+ */
+function highlight(text: string, matched: Set<string>): string {
+	return text.replace(/[\p{L}\p{N}]+/gu, word => matched.has(word.toLowerCase()) ? `**${word}**` : word);
+}
+
 /**
  * Search for nodes in the knowledge graph based on a query
  */
 function search_nodes(request: SearchNodesRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		let knowledgeGraph = loadGraph(env);
 
 		const { query } = request;
 
@@ -472,14 +1017,101 @@ function search_nodes(request: SearchNodesRequest, env: Environment): MCPResult
 			throw new Error('query parameter is required and must be a string');
 		}
 
-		const lowerQuery = query.toLowerCase();
+		const { limit = DEFAULT_SEARCH_LIMIT, fuzzy = true } = request;
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new Error('limit must be a positive integer');
+		}
+		const groups = parseSearchQuery(query);
+		if (groups.length === 0) {
+			throw new Error('query must contain at least one search term or filter');
+		}
+
+		const documents = knowledgeGraph.entities.map(buildSearchDocument);
+		const vocabulary = new Set(documents.flatMap(document => [...document.frequencies.keys()]));
+		const averageLength = documents.reduce((sum, document) => sum + document.length, 0) / Math.max(1, documents.length);
 
-		// Filter entities based on query
-		const filteredEntities = knowledgeGraph.entities.filter(entity =>
-			entity.name.toLowerCase().includes(lowerQuery) ||
-			entity.entityType.toLowerCase().includes(lowerQuery) ||
-			entity.observations.some(obs => obs.toLowerCase().includes(lowerQuery))
-		);
+		// Expand every term once and compute its document frequency across the graph
+		const termStats = new Map<string, { expansions: Map<string, number>, idf: number }>();
+		for (const clause of groups.flat()) {
+			if (clause.kind !== 'term' && clause.kind !== 'phrase') {
+				continue;
+			}
+			for (const token of clause.tokens) {
+				const key = `${clause.kind}:${token}`;
+				if (termStats.has(key)) {
+					continue;
+				}
+				// Phrase words must match exactly to keep the phrase check meaningful
+				const expansions = expandTerm(token, vocabulary, fuzzy && clause.kind === 'term');
+				const documentFrequency = documents.filter(document =>
+					[...expansions.keys()].some(expansion => document.frequencies.has(expansion))
+				).length;
+				const idf = Math.log(1 + (documents.length - documentFrequency + 0.5) / (documentFrequency + 0.5));
+				termStats.set(key, { expansions, idf });
+			}
+		}
+
+		const scoreTerm = (document: SearchDocument, key: string, matched: Set<string>): number => {
+			const stats = termStats.get(key);
+			if (!stats) {
+				return 0;
+			}
+			let frequency = 0;
+			for (const [token, weight] of stats.expansions) {
+				const count = document.frequencies.get(token) ?? 0;
+				if (count > 0) {
+					frequency += weight * count;
+					matched.add(token);
+				}
+			}
+			if (frequency === 0) {
+				return 0;
+			}
+			const normalization = BM25_K1 * (1 - BM25_B + BM25_B * document.length / (averageLength || 1));
+			return stats.idf * frequency * (BM25_K1 + 1) / (frequency + normalization);
+		};
+
+		const ranked: { document: SearchDocument, score: number, matched: Set<string> }[] = [];
+		for (const document of documents) {
+			let best: { score: number, matched: Set<string> } | null = null;
+
+			for (const group of groups) {
+				const matched = new Set<string>();
+				let score = 0;
+				const matches = group.every(clause => {
+					switch (clause.kind) {
+						case 'type':
+							return document.entity.entityType.toLowerCase() === clause.value.toLowerCase();
+						case 'name':
+							return document.entity.name.toLowerCase().includes(clause.value.toLowerCase());
+						case 'phrase': {
+							if (!document.fields.some(tokens => containsPhrase(tokens, clause.tokens))) {
+								return false;
+							}
+							score += clause.tokens.reduce((sum, token) => sum + scoreTerm(document, `phrase:${token}`, matched), 0);
+							return true;
+						}
+						case 'term': {
+							const termScore = scoreTerm(document, `term:${clause.tokens[0]}`, matched);
+							score += termScore;
+							return termScore > 0;
+						}
+					}
+				});
+
+				if (matches && (!best || score > best.score)) {
+					best = { score, matched };
+				}
+			}
+
+			if (best) {
+				ranked.push({ document, ...best });
+			}
+		}
+
+		ranked.sort((a, b) => b.score - a.score || a.document.entity.name.localeCompare(b.document.entity.name));
+		const top = ranked.slice(0, limit);
+		const filteredEntities = top.map(result => result.document.entity);
 
 		// Get entity names for relation filtering
 		const filteredEntityNames = new Set(filteredEntities.map(e => e.name));
@@ -494,13 +1126,28 @@ function search_nodes(request: SearchNodesRequest, env: Environment): MCPResult
 			relations: filteredRelations
 		};
 
-		const summary = `Search Results for "${query}":\n• ${result.entities.length} matching entities\n• ${result.relations.length} related connections`;
+		let summary = `Search Results for "${query}":\n• ${result.entities.length} matching entities\n• ${result.relations.length} related connections`;
+		if (ranked.length > top.length) {
+			summary += `\n• ${ranked.length - top.length} more matches beyond the limit of ${limit}`;
+		}
+
+		// Ranked list with the observations that matched, highlighted
+		const ranking = top.map((match, index) => {
+			const { entity } = match.document;
+			const lines = [`${index + 1}. ${highlight(entity.name, match.matched)} (${entity.entityType}) - score ${match.score.toFixed(2)}`];
+			for (const { content } of currentObservations(entity)) {
+				if (tokenize(content).some(token => match.matched.has(token))) {
+					lines.push(`   - ${highlight(content, match.matched)}`);
+				}
+			}
+			return lines.join('\n');
+		});
 
 		return {
 			content: [
 				{
 					type: "text",
-					text: `${summary}\n\nSearch Results:\n${JSON.stringify(result, null, 2)}`
+					text: `${summary}${ranking.length > 0 ? `\n\n${ranking.join('\n')}` : ''}\n\nSearch Results:\n${JSON.stringify(toStoredGraph(result), null, 2)}`
 				}
 			]
 		};
@@ -523,7 +1170,7 @@ function search_nodes(request: SearchNodesRequest, env: Environment): MCPResult
  */
 function open_nodes(request: OpenNodesRequest, env: Environment): MCPResult {
 	try {
-		let knowledgeGraph = getState(env, "knowledgeGraph") as KnowledgeGraph ?? templateKnowledgeGraph;
+		let knowledgeGraph = loadGraph(env);
 
 		const { names } = request;
 
@@ -561,7 +1208,7 @@ function open_nodes(request: OpenNodesRequest, env: Environment): MCPResult {
 			content: [
 				{
 					type: "text",
-					text: `${summary}\n\nRequested Nodes:\n${JSON.stringify(result, null, 2)}`
+					text: `${summary}\n\nRequested Nodes:\n${JSON.stringify(toStoredGraph(result), null, 2)}`
 				}
 			]
 		};
@@ -579,6 +1226,1370 @@ function open_nodes(request: OpenNodesRequest, env: Environment): MCPResult {
 	}
 }
 
+/**
+ * Describe one observation change for the history timeline
+ */
+function formatChange(change: ObservationChange): string {
+	const provenance = [
+		change.source !== undefined ? `source: ${change.source}` : '',
+		change.confidence !== undefined ? `confidence ${change.confidence}` : ''
+	].filter(Boolean).join(', ');
+	const details = provenance ? ` (${provenance})` : '';
+	switch (change.action) {
+		case 'entity-created': return `${change.timestamp} created the entity`;
+		case 'entity-deleted': return `${change.timestamp} deleted the entity`;
+		case 'superseded': return `${change.timestamp} superseded "${change.content}" with "${change.replacement}"`;
+		default: return `${change.timestamp} ${change.action} "${change.content}"${details}`;
+	}
+}
+
+/**
+ * Show how an entity's observations changed over time, newest entries last
+ */
+function get_entity_history(request: GetEntityHistoryRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+
+		const { entityName, limit = DEFAULT_HISTORY_LIMIT } = request;
+
+		if (!entityName || typeof entityName !== 'string') {
+			throw new Error('entityName parameter is required and must be a string');
+		}
+		if (!Number.isInteger(limit) || limit < 1) {
+			throw new Error('limit must be a positive integer');
+		}
+
+		const entity = knowledgeGraph.entities.find(e => e.name === entityName);
+		const log = (getState(env, "observationHistory") as ObservationChange[] ?? []).filter(change => change.entityName === entityName);
+		if (!entity && log.length === 0) {
+			throw new Error(`Entity '${entityName}' not found`);
+		}
+
+		const shown = log.slice(-limit);
+		let summary = entity
+			? `History of '${entity.name}' (${entity.entityType}): ${log.length} changes, ${currentObservations(entity).length} current observations, ${entity.observations.length - currentObservations(entity).length} superseded`
+			: `History of '${entityName}': ${log.length} changes; the entity no longer exists`;
+		if (shown.length < log.length) {
+			summary += `\nShowing the latest ${shown.length} of ${log.length} changes`;
+		}
+
+		const sections = [summary];
+		sections.push(shown.length > 0 ? `Timeline:\n${shown.map(change => `• ${formatChange(change)}`).join('\n')}` : 'Timeline: no recorded changes');
+
+		if (entity) {
+			const describe = (observation: Observation) => {
+				const details = [
+					observation.createdAt ? `added ${observation.createdAt}` : 'added before history was kept',
+					observation.updatedAt && observation.updatedAt !== observation.createdAt ? `updated ${observation.updatedAt}` : '',
+					observation.source !== undefined ? `source: ${observation.source}` : '',
+					observation.confidence !== undefined ? `confidence ${observation.confidence}` : ''
+				].filter(Boolean).join(', ');
+				return `• ${observation.content} (${details})`;
+			};
+			const current = currentObservations(entity);
+			const superseded = entity.observations.filter(observation => observation.supersededBy);
+			sections.push(`Current observations:\n${current.length > 0 ? current.map(describe).join('\n') : '• none'}`);
+			if (superseded.length > 0) {
+				sections.push(`Superseded observations:\n${superseded.map(observation => `${describe(observation)} -> ${observation.supersededBy}`).join('\n')}`);
+			}
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${sections.join('\n\n')}\n\nEntity History:\n${JSON.stringify({ entity: entity ? toStoredEntity(entity) : null, changes: shown }, null, 2)}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error getting entity history: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * Index relations by entity, keeping only the given relation types and directions
+ */
+function buildAdjacency(graph: KnowledgeGraph, relationTypes: string[] | undefined, direction: TraversalDirection): Map<string, Edge[]> {
+	if (!TRAVERSAL_DIRECTIONS.includes(direction)) {
+		throw new Error(`direction must be one of ${TRAVERSAL_DIRECTIONS.join(', ')}`);
+	}
+	if (relationTypes !== undefined && !isStringArray(relationTypes)) {
+		throw new Error('relationTypes must be an array of strings');
+	}
+	const adjacency = new Map<string, Edge[]>();
+	const add = (name: string, edge: Edge) => {
+		const edges = adjacency.get(name) ?? [];
+		edges.push(edge);
+		adjacency.set(name, edges);
+	};
+
+	for (const relation of graph.relations) {
+		if (relationTypes && relationTypes.length > 0 && !relationTypes.includes(relation.relationType)) {
+			continue;
+		}
+		if (direction !== 'incoming') {
+			add(relation.from, { relation, neighbor: relation.to });
+		}
+		if (direction !== 'outgoing') {
+			add(relation.to, { relation, neighbor: relation.from });
+		}
+	}
+	return adjacency;
+}
+
+/**
+ * Breadth-first expansion from the seed entities, returning each reached entity's hop count
+ * and every followed relation between reached entities, including parallel ones
+ */
+function expandNeighborhood(adjacency: Map<string, Edge[]>, seeds: string[], depth: number): { hops: Map<string, number>, relations: Relation[] } {
+	const hops = new Map(seeds.map(name => [name, 0]));
+	let frontier = seeds;
+
+	for (let hop = 1; hop <= depth && frontier.length > 0; hop++) {
+		const next: string[] = [];
+		for (const name of frontier) {
+			for (const edge of adjacency.get(name) ?? []) {
+				if (hops.has(edge.neighbor)) {
+					continue;
+				}
+				hops.set(edge.neighbor, hop);
+				next.push(edge.neighbor);
+			}
+		}
+		frontier = next;
+	}
+
+	// Relations followed in both directions appear under both ends; keep each once
+	const relations = new Set<Relation>();
+	for (const name of hops.keys()) {
+		for (const edge of adjacency.get(name) ?? []) {
+			if (hops.has(edge.neighbor)) {
+				relations.add(edge.relation);
+			}
+		}
+	}
+	return { hops, relations: [...relations] };
+}
+
+/**
+ * Render a path as "A -[type]-> B <-[type]- C"
+ */
+function formatPath(path: GraphPath): string {
+	let text = path.entities[0];
+	path.relations.forEach((relation, index) => {
+		const next = path.entities[index + 1];
+		text += relation.to === next ? ` -[${relation.relationType}]-> ${next}` : ` <-[${relation.relationType}]- ${next}`;
+	});
+	return text;
+}
+
+function clampDepth(depth: number | undefined, fallback: number, max: number, name: string): number {
+	const value = depth ?? fallback;
+	if (!Number.isInteger(value) || value < 1) {
+		throw new Error(`${name} must be a positive integer`);
+	}
+	return Math.min(value, max);
+}
+
+/**
+ * Expand an entity's neighborhood up to depth hops, optionally following only some relation types or directions
+ */
+function get_neighbors(request: GetNeighborsRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+
+		const { name, relationTypes, direction = 'both' } = request;
+
+		if (!name || typeof name !== 'string') {
+			throw new Error('name parameter is required and must be a string');
+		}
+		if (!knowledgeGraph.entities.some(e => e.name === name)) {
+			throw new Error(`Entity '${name}' not found`);
+		}
+		const depth = clampDepth(request.depth, 1, MAX_TRAVERSAL_DEPTH, 'depth');
+
+		const adjacency = buildAdjacency(knowledgeGraph, relationTypes, direction);
+		const { hops, relations } = expandNeighborhood(adjacency, [name], depth);
+		hops.delete(name);
+
+		const result: KnowledgeGraph = {
+			entities: knowledgeGraph.entities.filter(entity => hops.has(entity.name)),
+			relations
+		};
+
+		const lines: string[] = [];
+		for (let hop = 1; hop <= depth; hop++) {
+			const names = [...hops].filter(([, distance]) => distance === hop).map(([entityName]) => entityName);
+			if (names.length > 0) {
+				lines.push(`${hop} hop${hop === 1 ? '' : 's'}: ${names.join(', ')}`);
+			}
+		}
+
+		const summary = `Neighbors of ${name} within ${depth} hop${depth === 1 ? '' : 's'}:\n• ${result.entities.length} entities\n• ${result.relations.length} relations`;
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${summary}${lines.length > 0 ? `\n\n${lines.join('\n')}` : ''}\n\nNeighborhood:\n${JSON.stringify(toStoredGraph(result), null, 2)}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error getting neighbors: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * Find the shortest paths, or all simple paths up to maxLength, between two entities
+ */
+function find_paths(request: FindPathsRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+
+		const { from, to, mode = 'shortest', relationTypes, direction = 'both', limit = DEFAULT_PATH_LIMIT } = request;
+
+		if (!from || !to) {
+			throw new Error('from and to parameters are required');
+		}
+		for (const name of [from, to]) {
+			if (!knowledgeGraph.entities.some(e => e.name === name)) {
+				throw new Error(`Entity '${name}' not found`);
+			}
+		}
+		if (from === to) {
+			throw new Error('from and to must be different entities');
+		}
+		if (!PATH_MODES.includes(mode)) {
+			throw new Error(`mode must be one of ${PATH_MODES.join(', ')}`);
+		}
+		const maxLength = clampDepth(request.maxLength, 4, MAX_PATH_LENGTH, 'maxLength');
+
+		const adjacency = buildAdjacency(knowledgeGraph, relationTypes, direction);
+		const paths: GraphPath[] = [];
+		let exhausted = false;
+
+		if (mode === 'shortest') {
+			// Breadth first, recording every predecessor edge on a shortest route
+			const distance = new Map([[from, 0]]);
+			const predecessors = new Map<string, Edge[]>();
+			let frontier = [from];
+			for (let hop = 1; hop <= maxLength && frontier.length > 0 && !distance.has(to); hop++) {
+				const next: string[] = [];
+				for (const name of frontier) {
+					for (const edge of adjacency.get(name) ?? []) {
+						const known = distance.get(edge.neighbor);
+						if (known !== undefined && known < hop) {
+							continue;
+						}
+						if (known === undefined) {
+							distance.set(edge.neighbor, hop);
+							next.push(edge.neighbor);
+						}
+						const back: Edge = { relation: edge.relation, neighbor: name };
+						predecessors.set(edge.neighbor, [...(predecessors.get(edge.neighbor) ?? []), back]);
+					}
+				}
+				frontier = next;
+			}
+
+			// Walk the predecessors back from the target
+			const unwind = (name: string, suffix: GraphPath) => {
+				if (paths.length >= limit) {
+					return;
+				}
+				if (name === from) {
+					paths.push(suffix);
+					return;
+				}
+				for (const edge of predecessors.get(name) ?? []) {
+					unwind(edge.neighbor, { entities: [edge.neighbor, ...suffix.entities], relations: [edge.relation, ...suffix.relations] });
+				}
+			};
+			if (distance.has(to)) {
+				unwind(to, { entities: [to], relations: [] });
+			}
+		} else {
+			// Hops still needed from each entity to the target, to prune branches that cannot arrive in time
+			const reverse = new Map<string, string[]>();
+			for (const [name, edges] of adjacency) {
+				for (const edge of edges) {
+					reverse.set(edge.neighbor, [...(reverse.get(edge.neighbor) ?? []), name]);
+				}
+			}
+			const remaining = new Map([[to, 0]]);
+			let frontier = [to];
+			for (let hop = 1; hop <= maxLength && frontier.length > 0; hop++) {
+				const next: string[] = [];
+				for (const name of frontier) {
+					for (const previous of reverse.get(name) ?? []) {
+						if (!remaining.has(previous)) {
+							remaining.set(previous, hop);
+							next.push(previous);
+						}
+					}
+				}
+				frontier = next;
+			}
+
+			// Depth first over simple paths of exactly `length` relations, for increasing lengths,
+			// so paths come out shortest first; the step budget bounds the work on dense graphs
+			let steps = 0;
+			const visit = (name: string, path: GraphPath, visited: Set<string>, length: number) => {
+				if (paths.length >= limit || steps >= MAX_PATH_SEARCH_STEPS) {
+					return;
+				}
+				if (name === to) {
+					if (path.relations.length === length) {
+						paths.push(path);
+					}
+					return;
+				}
+				for (const edge of adjacency.get(name) ?? []) {
+					steps++;
+					const needed = remaining.get(edge.neighbor);
+					if (visited.has(edge.neighbor) || needed === undefined || path.relations.length + 1 + needed > length) {
+						continue;
+					}
+					visited.add(edge.neighbor);
+					visit(edge.neighbor, { entities: [...path.entities, edge.neighbor], relations: [...path.relations, edge.relation] }, visited, length);
+					visited.delete(edge.neighbor);
+				}
+			};
+			for (let length = remaining.get(from) ?? maxLength + 1; length <= maxLength && paths.length < limit && steps < MAX_PATH_SEARCH_STEPS; length++) {
+				visit(from, { entities: [from], relations: [] }, new Set([from]), length);
+			}
+			exhausted = steps >= MAX_PATH_SEARCH_STEPS;
+		}
+
+		const summary = paths.length > 0
+			? `Found ${paths.length} ${mode === 'shortest' ? 'shortest ' : ''}path${paths.length === 1 ? '' : 's'} from ${from} to ${to}${paths.length >= limit ? ` (limited to ${limit})` : ''}`
+			: `No path from ${from} to ${to} within ${maxLength} relations`;
+		const note = exhausted ? `\nStopped after ${MAX_PATH_SEARCH_STEPS} search steps; longer paths may be missing` : '';
+		const lines = paths.map((path, index) => `${index + 1}. (${path.relations.length}) ${formatPath(path)}`);
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${summary}${note}${lines.length > 0 ? `\n\n${lines.join('\n')}\n\nPaths:\n${JSON.stringify(paths, null, 2)}` : ''}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error finding paths: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * Extract the entities within depth hops of the given entities, with every relation between them
+ */
+function subgraph(request: SubgraphRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+
+		const { names, relationTypes, direction = 'both' } = request;
+
+		if (!names || !Array.isArray(names)) {
+			throw new Error('names parameter is required and must be an array');
+		}
+		const depth = request.depth === 0 ? 0 : clampDepth(request.depth, 1, MAX_TRAVERSAL_DEPTH, 'depth');
+
+		const seeds = names.filter(name => knowledgeGraph.entities.some(e => e.name === name));
+		const notFoundNames = names.filter(name => !seeds.includes(name));
+
+		const adjacency = buildAdjacency(knowledgeGraph, relationTypes, direction);
+		const { hops } = expandNeighborhood(adjacency, seeds, depth);
+
+		// Induced subgraph: every matching relation whose ends were both reached
+		const result: KnowledgeGraph = {
+			entities: knowledgeGraph.entities.filter(entity => hops.has(entity.name)),
+			relations: knowledgeGraph.relations.filter(relation =>
+				hops.has(relation.from) && hops.has(relation.to) &&
+				(!relationTypes || relationTypes.length === 0 || relationTypes.includes(relation.relationType))
+			)
+		};
+
+		let summary = `Subgraph around ${seeds.length} entities within ${depth} hop${depth === 1 ? '' : 's'}:\n• ${result.entities.length} entities\n• ${result.relations.length} relations`;
+		if (notFoundNames.length > 0) {
+			summary += `\nEntities not found: ${notFoundNames.join(', ')}`;
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${summary}\n\nSubgraph:\n${JSON.stringify(toStoredGraph(result), null, 2)}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error extracting subgraph: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+function loadSchema(env: Environment): GraphSchema | null {
+	return getState(env, "graphSchema") as GraphSchema ?? null;
+}
+
+/**
+ * The key of a "key: value" observation, lowercased
+ */
+function observationKey(observation: string): string | null {
+	const match = observation.match(/^\s*([^:]+?)\s*:/);
+	return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Describe every way the graph breaks the schema, including relations to missing entities
+ */
+function validateGraph(graph: KnowledgeGraph, schema: GraphSchema): SchemaViolation[] {
+	const violations: SchemaViolation[] = [];
+	const entityTypes = new Map(schema.entityTypes.map(type => [type.name, type]));
+	const relationTypes = new Map(schema.relationTypes.map(type => [type.name, type]));
+	const entities = new Map(graph.entities.map(entity => [entity.name, entity]));
+
+	for (const entity of graph.entities) {
+		const type = entityTypes.get(entity.entityType);
+		if (!type) {
+			if (schema.strict) {
+				violations.push({ subject: `entity\u0000${entity.name}\u0000type`, message: `Entity '${entity.name}' has undeclared type '${entity.entityType}'` });
+			}
+			continue;
+		}
+		const keys = new Set(currentObservations(entity).map(observation => observationKey(observation.content)));
+		for (const key of type.requiredKeys) {
+			if (!keys.has(key.toLowerCase())) {
+				violations.push({ subject: `entity\u0000${entity.name}\u0000key`, message: `Entity '${entity.name}' (${entity.entityType}) is missing required observation '${key}: ...'` });
+			}
+		}
+	}
+
+	// Relations per source and per target, for cardinality checks
+	const outgoing = new Map<string, number>();
+	const incoming = new Map<string, number>();
+
+	for (const relation of graph.relations) {
+		const label = `'${relation.from}' -[${relation.relationType}]-> '${relation.to}'`;
+		const subject = `relation\u0000${relation.from}\u0000${relation.to}`;
+		const from = entities.get(relation.from);
+		const to = entities.get(relation.to);
+		if (!from || !to) {
+			violations.push({ subject: `${subject}\u0000endpoint`, message: `Relation ${label} points at a missing entity` });
+		}
+
+		const type = relationTypes.get(relation.relationType);
+		if (!type) {
+			if (schema.strict) {
+				violations.push({ subject: `${subject}\u0000type`, message: `Relation ${label} has undeclared type '${relation.relationType}'` });
+			}
+			continue;
+		}
+		if (from && type.fromTypes.length > 0 && !type.fromTypes.includes(from.entityType)) {
+			violations.push({ subject: `${subject}\u0000from`, message: `Relation ${label} cannot start at a ${from.entityType}; ${type.name} must start at ${type.fromTypes.join(' or ')}` });
+		}
+		if (to && type.toTypes.length > 0 && !type.toTypes.includes(to.entityType)) {
+			violations.push({ subject: `${subject}\u0000to`, message: `Relation ${label} cannot end at a ${to.entityType}; ${type.name} must end at ${type.toTypes.join(' or ')}` });
+		}
+
+		const outgoingKey = `${relation.relationType}\u0000${relation.from}`;
+		const incomingKey = `${relation.relationType}\u0000${relation.to}`;
+		outgoing.set(outgoingKey, (outgoing.get(outgoingKey) ?? 0) + 1);
+		incoming.set(incomingKey, (incoming.get(incomingKey) ?? 0) + 1);
+	}
+
+	for (const [key, count] of outgoing) {
+		const [relationType, name] = key.split('\u0000');
+		const cardinality = relationTypes.get(relationType)?.cardinality;
+		if (count > 1 && (cardinality === 'one-to-one' || cardinality === 'many-to-one')) {
+			violations.push({ subject: `node\u0000${name}\u0000outgoing`, message: `'${name}' has ${count} outgoing ${relationType} relations, but ${relationType} is ${cardinality}` });
+		}
+	}
+	for (const [key, count] of incoming) {
+		const [relationType, name] = key.split('\u0000');
+		const cardinality = relationTypes.get(relationType)?.cardinality;
+		if (count > 1 && (cardinality === 'one-to-one' || cardinality === 'one-to-many')) {
+			violations.push({ subject: `node\u0000${name}\u0000incoming`, message: `'${name}' has ${count} incoming ${relationType} relations, but ${relationType} is ${cardinality}` });
+		}
+	}
+
+	return violations;
+}
+
+function formatViolations(violations: SchemaViolation[]): string {
+	const listed = violations.slice(0, MAX_LISTED_VIOLATIONS).map(violation => `- ${violation.message}`);
+	if (violations.length > listed.length) {
+		listed.push(`- ...and ${violations.length - listed.length} more`);
+	}
+	return listed.join('\n');
+}
+
+/**
+ * Violations of after beyond those before for the same entity, relation or node and rule. Messages
+ * are not compared, since a migration renames the types and keys they mention
+ */
+function introducedViolations(before: SchemaViolation[], after: SchemaViolation[]): SchemaViolation[] {
+	const remaining = new Map<string, number>();
+	for (const violation of before) {
+		remaining.set(violation.subject, (remaining.get(violation.subject) ?? 0) + 1);
+	}
+	return after.filter(violation => {
+		const count = remaining.get(violation.subject) ?? 0;
+		remaining.set(violation.subject, count - 1);
+		return count <= 0;
+	});
+}
+
+/**
+ * Throw if a write would add schema violations. Violations the graph already had are tolerated,
+ * so writes keep working on a graph that predates the schema; callers change a copy of the
+ * stored graph so a rejected write leaves it untouched
+ */
+function enforceSchema(env: Environment, before: KnowledgeGraph, after: KnowledgeGraph): void {
+	const schema = loadSchema(env);
+	if (!schema) {
+		return;
+	}
+	const existing = new Set(validateGraph(before, schema).map(violation => violation.message));
+	const introduced = validateGraph(after, schema).filter(violation => !existing.has(violation.message));
+	if (introduced.length > 0) {
+		throw new Error(`Schema validation failed:\n${formatViolations(introduced)}`);
+	}
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+/**
+ * Add or replace entity and relation type definitions in the graph's schema
+ */
+function define_schema(request: DefineSchemaRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+		const schema: GraphSchema = loadSchema(env) ?? { entityTypes: [], relationTypes: [], strict: false };
+
+		const { entityTypes = [], relationTypes = [], strict, force = false } = request;
+
+		if (!Array.isArray(entityTypes) || !Array.isArray(relationTypes)) {
+			throw new Error('entityTypes and relationTypes must be arrays');
+		}
+		if (strict !== undefined && typeof strict !== 'boolean') {
+			throw new Error('strict must be a boolean');
+		}
+
+		for (const type of entityTypes) {
+			if (!type.name) {
+				throw new Error('Each entity type must have a name');
+			}
+			if (type.requiredKeys !== undefined && !isStringArray(type.requiredKeys)) {
+				throw new Error(`requiredKeys of entity type '${type.name}' must be an array of strings`);
+			}
+			const definition: EntityTypeSchema = { name: type.name, requiredKeys: type.requiredKeys ?? [] };
+			if (type.description) {
+				definition.description = type.description;
+			}
+			schema.entityTypes = [...schema.entityTypes.filter(existing => existing.name !== type.name), definition];
+		}
+
+		for (const type of relationTypes) {
+			if (!type.name) {
+				throw new Error('Each relation type must have a name');
+			}
+			for (const field of ['fromTypes', 'toTypes'] as const) {
+				if (type[field] !== undefined && !isStringArray(type[field])) {
+					throw new Error(`${field} of relation type '${type.name}' must be an array of strings`);
+				}
+			}
+			const cardinality = type.cardinality ?? 'many-to-many';
+			if (!CARDINALITIES.includes(cardinality)) {
+				throw new Error(`Relation type '${type.name}' has invalid cardinality '${cardinality}'; use one of ${CARDINALITIES.join(', ')}`);
+			}
+			const definition: RelationTypeSchema = {
+				name: type.name,
+				fromTypes: type.fromTypes ?? [],
+				toTypes: type.toTypes ?? [],
+				cardinality
+			};
+			if (type.description) {
+				definition.description = type.description;
+			}
+			schema.relationTypes = [...schema.relationTypes.filter(existing => existing.name !== type.name), definition];
+		}
+
+		if (strict !== undefined) {
+			schema.strict = strict;
+		}
+
+		// The existing graph must satisfy the new schema unless forced
+		const violations = validateGraph(knowledgeGraph, schema);
+		if (violations.length > 0 && !force) {
+			throw new Error(`The existing graph has ${violations.length} violations of this schema; fix them, use migrate-schema, or pass force to save it anyway:\n${formatViolations(violations)}`);
+		}
+
+		if (!setState(env, "graphSchema", schema)) {
+			console.log("State was not set, check logs for the error");
+		}
+
+		let summary = `Schema saved with ${schema.entityTypes.length} entity types and ${schema.relationTypes.length} relation types${schema.strict ? ' (strict)' : ''}`;
+		if (violations.length > 0) {
+			summary += `\n\nThe existing graph has ${violations.length} violations:\n${formatViolations(violations)}`;
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${summary}\n\nSchema:\n${JSON.stringify(schema, null, 2)}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error defining schema: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * List the schema with how many entities and relations use each type, and any current violations
+ */
+function list_schema(request: ListSchemaRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+		const schema = loadSchema(env);
+
+		if (!schema) {
+			return {
+				content: [
+					{
+						type: "text",
+						text: 'No schema defined; any entity and relation types are accepted. Use define-schema to declare types.'
+					}
+				]
+			};
+		}
+
+		const lines = ['Entity types:'];
+		for (const type of schema.entityTypes) {
+			const count = knowledgeGraph.entities.filter(entity => entity.entityType === type.name).length;
+			const keys = type.requiredKeys.length > 0 ? `, requires ${type.requiredKeys.join(', ')}` : '';
+			lines.push(`• ${type.name} (${count} entities${keys})${type.description ? ` - ${type.description}` : ''}`);
+		}
+		lines.push('', 'Relation types:');
+		for (const type of schema.relationTypes) {
+			const count = knowledgeGraph.relations.filter(relation => relation.relationType === type.name).length;
+			const ends = `${type.fromTypes.join('|') || 'any'} -> ${type.toTypes.join('|') || 'any'}`;
+			lines.push(`• ${type.name}: ${ends}, ${type.cardinality} (${count} relations)${type.description ? ` - ${type.description}` : ''}`);
+		}
+
+		const declaredEntityTypes = new Set(schema.entityTypes.map(type => type.name));
+		const undeclared = [...new Set(knowledgeGraph.entities.map(entity => entity.entityType))].filter(type => !declaredEntityTypes.has(type));
+		if (undeclared.length > 0) {
+			lines.push('', `Undeclared entity types in use: ${undeclared.join(', ')}`);
+		}
+
+		const violations = validateGraph(knowledgeGraph, schema);
+		lines.push('', violations.length > 0 ? `${violations.length} violations:\n${formatViolations(violations)}` : 'The graph satisfies the schema');
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Schema${schema.strict ? ' (strict)' : ''}:\n\n${lines.join('\n')}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error listing schema: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * Rename or remove types and observation keys in both the schema and the graph
+ */
+function migrate_schema(request: MigrateSchemaRequest, env: Environment): MCPResult {
+	try {
+		const storedGraph = loadGraph(env);
+		const storedSchema = loadSchema(env) ?? { entityTypes: [], relationTypes: [], strict: false };
+
+		const { operations, force = false } = request;
+
+		if (!operations || !Array.isArray(operations)) {
+			throw new Error('operations parameter is required and must be an array');
+		}
+
+		const knowledgeGraph = structuredClone(storedGraph);
+		const schema = structuredClone(storedSchema);
+		const changes: string[] = [];
+		const timestamp = new Date().toISOString();
+
+		for (const operation of operations) {
+			const { op, from, to } = operation;
+			switch (op) {
+				case 'renameEntityType': {
+					if (!from || !to) throw new Error('renameEntityType needs from and to');
+					if (from === to) throw new Error(`renameEntityType from and to are both '${from}'`);
+					// Renaming onto a declared type would silently drop one of the two definitions
+					if (schema.entityTypes.some(type => type.name === from) && schema.entityTypes.some(type => type.name === to)) {
+						throw new Error(`Entity types '${from}' and '${to}' are both declared; remove one with removeEntityType before renaming`);
+					}
+					let count = 0;
+					for (const entity of knowledgeGraph.entities) {
+						if (entity.entityType === from) {
+							entity.entityType = to;
+							count++;
+						}
+					}
+					schema.entityTypes.forEach(type => { if (type.name === from) type.name = to; });
+					const rename = (names: string[]) => [...new Set(names.map(name => name === from ? to : name))];
+					schema.relationTypes.forEach(type => {
+						type.fromTypes = rename(type.fromTypes);
+						type.toTypes = rename(type.toTypes);
+					});
+					changes.push(`Renamed entity type ${from} to ${to} on ${count} entities`);
+					break;
+				}
+				case 'renameRelationType': {
+					if (!from || !to) throw new Error('renameRelationType needs from and to');
+					if (from === to) throw new Error(`renameRelationType from and to are both '${from}'`);
+					if (schema.relationTypes.some(type => type.name === from) && schema.relationTypes.some(type => type.name === to)) {
+						throw new Error(`Relation types '${from}' and '${to}' are both declared; remove one with removeRelationType before renaming`);
+					}
+					let count = 0;
+					for (const relation of knowledgeGraph.relations) {
+						if (relation.relationType === from) {
+							relation.relationType = to;
+							count++;
+						}
+					}
+					// Renaming can make two relations identical; keep one
+					knowledgeGraph.relations = knowledgeGraph.relations.filter((relation, index, all) =>
+						all.findIndex(other => other.from === relation.from && other.to === relation.to && other.relationType === relation.relationType) === index
+					);
+					schema.relationTypes.forEach(type => { if (type.name === from) type.name = to; });
+					changes.push(`Renamed relation type ${from} to ${to} on ${count} relations`);
+					break;
+				}
+				case 'renameKey': {
+					if (!from || !to || !operation.entityType) throw new Error('renameKey needs entityType, from and to');
+					let count = 0;
+					for (const entity of knowledgeGraph.entities) {
+						if (entity.entityType !== operation.entityType) continue;
+						const renamed = new Map<string, string>();
+						for (const observation of entity.observations) {
+							if (observationKey(observation.content) !== from.toLowerCase()) continue;
+							count++;
+							const content = `${to}:${observation.content.slice(observation.content.indexOf(':') + 1)}`;
+							renamed.set(observation.content, content);
+							observation.content = content;
+							observation.updatedAt = timestamp;
+						}
+						// Keep supersession links pointing at the renamed contents
+						for (const observation of entity.observations) {
+							if (observation.supersedes && renamed.has(observation.supersedes)) observation.supersedes = renamed.get(observation.supersedes);
+							if (observation.supersededBy && renamed.has(observation.supersededBy)) observation.supersededBy = renamed.get(observation.supersededBy);
+						}
+					}
+					schema.entityTypes.forEach(type => {
+						if (type.name === operation.entityType) {
+							type.requiredKeys = type.requiredKeys.map(key => key.toLowerCase() === from.toLowerCase() ? to : key);
+						}
+					});
+					changes.push(`Renamed observation key ${from} to ${to} in ${count} ${operation.entityType} observations`);
+					break;
+				}
+				case 'removeEntityType': {
+					if (!operation.name) throw new Error('removeEntityType needs name');
+					schema.entityTypes = schema.entityTypes.filter(type => type.name !== operation.name);
+					changes.push(`Removed the definition of entity type ${operation.name}; its entities are kept`);
+					break;
+				}
+				case 'removeRelationType': {
+					if (!operation.name) throw new Error('removeRelationType needs name');
+					schema.relationTypes = schema.relationTypes.filter(type => type.name !== operation.name);
+					changes.push(`Removed the definition of relation type ${operation.name}; its relations are kept`);
+					break;
+				}
+				default:
+					throw new Error(`Unknown migration operation '${op}'`);
+			}
+		}
+
+		const introduced = introducedViolations(validateGraph(storedGraph, storedSchema), validateGraph(knowledgeGraph, schema));
+		if (introduced.length > 0 && !force) {
+			throw new Error(`The migration would introduce ${introduced.length} violations; nothing was changed. Pass force to apply it anyway:\n${formatViolations(introduced)}`);
+		}
+
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph)) || !setState(env, "graphSchema", schema)) {
+			console.log("State was not set, check logs for the error");
+		}
+
+		let summary = `Applied ${operations.length} migration operations:\n${changes.map(change => `• ${change}`).join('\n')}`;
+		if (introduced.length > 0) {
+			summary += `\n\nThe graph now has ${introduced.length} new violations:\n${formatViolations(introduced)}`;
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: summary
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error migrating schema: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+function entityId(name: string): string {
+	return `${JSONLD_VOCABULARY}entity:${encodeURIComponent(name)}`;
+}
+
+function escapeXml(text: string): string {
+	return text.replace(/[&<>"']/g, char => `&${{ '&': 'amp', '<': 'lt', '>': 'gt', '"': 'quot', "'": 'apos' }[char]};`);
+}
+
+function unescapeXml(text: string): string {
+	return text
+		.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => data.replace(/&/g, '&amp;').replace(/</g, '&lt;'))
+		.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+			if (entity[0] === '#') {
+				return String.fromCodePoint(entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+			}
+			return { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" }[entity.toLowerCase()] ?? '';
+		});
+}
+
+/**
+ * The attributes of an XML start tag, unescaped
+ */
+function parseXmlAttributes(tag: string): Map<string, string> {
+	const attributes = new Map<string, string>();
+	for (const match of tag.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+		attributes.set(match[1], unescapeXml(match[2] ?? match[3]));
+	}
+	return attributes;
+}
+
+/**
+ * Serialize the graph; JSONL follows the upstream memory server and keeps only current observations
+ */
+function serializeGraph(graph: KnowledgeGraph, format: GraphFormat): string {
+	switch (format) {
+		case 'jsonl':
+			return [
+				...graph.entities.map(entity => JSON.stringify({
+					type: 'entity',
+					name: entity.name,
+					entityType: entity.entityType,
+					observations: currentObservations(entity).map(observation => observation.content)
+				})),
+				...graph.relations.map(relation => JSON.stringify({ type: 'relation', ...relation }))
+			].join('\n');
+		case 'jsonld':
+			return JSON.stringify({
+				'@context': JSONLD_CONTEXT,
+				'@graph': [
+					...graph.entities.map(entity => ({ '@id': entityId(entity.name), '@type': 'Entity', ...entity })),
+					...graph.relations.map(relation => ({
+						'@type': 'Relation',
+						from: entityId(relation.from),
+						to: entityId(relation.to),
+						relationType: relation.relationType
+					}))
+				]
+			}, null, 2);
+		case 'graphml': {
+			// "label" is the attribute Gephi and yEd show on nodes; observations are kept as JSON
+			const lines = [
+				'<?xml version="1.0" encoding="UTF-8"?>',
+				'<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+				'  <key id="label" for="node" attr.name="label" attr.type="string"/>',
+				'  <key id="entityType" for="node" attr.name="entityType" attr.type="string"/>',
+				'  <key id="observations" for="node" attr.name="observations" attr.type="string"/>',
+				'  <key id="relationType" for="edge" attr.name="relationType" attr.type="string"/>',
+				'  <graph id="knowledgeGraph" edgedefault="directed">'
+			];
+			for (const entity of graph.entities) {
+				lines.push(
+					`    <node id="${escapeXml(entity.name)}">`,
+					`      <data key="label">${escapeXml(entity.name)}</data>`,
+					`      <data key="entityType">${escapeXml(entity.entityType)}</data>`,
+					`      <data key="observations">${escapeXml(JSON.stringify(entity.observations))}</data>`,
+					'    </node>'
+				);
+			}
+			graph.relations.forEach((relation, index) => {
+				lines.push(
+					`    <edge id="e${index}" source="${escapeXml(relation.from)}" target="${escapeXml(relation.to)}">`,
+					`      <data key="relationType">${escapeXml(relation.relationType)}</data>`,
+					'    </edge>'
+				);
+			});
+			lines.push('  </graph>', '</graphml>');
+			return lines.join('\n');
+		}
+	}
+}
+
+/**
+ * Build an observation from imported data, keeping the timestamps and links it carries
+ */
+function importObservation(value: unknown, timestamp: string, source?: string): Observation {
+	if (typeof value === 'string') {
+		return toObservation(value, timestamp, source);
+	}
+	if (!value || typeof value !== 'object') {
+		throw new Error(`Invalid observation ${JSON.stringify(value)}`);
+	}
+	const fields = value as Partial<Observation>;
+	const observation = toObservation({ content: fields.content as string, source: fields.source, confidence: fields.confidence }, timestamp, source);
+	for (const key of ['createdAt', 'updatedAt', 'supersedes', 'supersededBy'] as const) {
+		if (typeof fields[key] === 'string') {
+			observation[key] = fields[key];
+		}
+	}
+	return observation;
+}
+
+/**
+ * Keep imported supersession links only where they name another observation of the same entity,
+ * filling in the missing end of a one-sided link and dropping links the other end contradicts,
+ * so no observation is hidden as superseded by something that does not exist
+ */
+function reconcileSupersession(observations: Observation[]): void {
+	const byContent = new Map(observations.map(observation => [observation.content, observation]));
+	for (const observation of observations) {
+		if (observation.supersededBy === undefined) continue;
+		const replacement = byContent.get(observation.supersededBy);
+		if (!replacement || replacement === observation || (replacement.supersedes !== undefined && replacement.supersedes !== observation.content)) {
+			delete observation.supersededBy;
+		} else {
+			replacement.supersedes = observation.content;
+		}
+	}
+	for (const observation of observations) {
+		if (observation.supersedes === undefined) continue;
+		const previous = byContent.get(observation.supersedes);
+		if (!previous || previous === observation || (previous.supersededBy !== undefined && previous.supersededBy !== observation.content)) {
+			delete observation.supersedes;
+		} else {
+			previous.supersededBy = observation.content;
+		}
+	}
+}
+
+function importEntity(fields: Record<string, unknown>, label: string, timestamp: string, source?: string): Entity {
+	const { name, entityType, observations = [] } = fields;
+	if (typeof name !== 'string' || !name || typeof entityType !== 'string' || !entityType || !Array.isArray(observations)) {
+		throw new Error(`${label}: entities need a name, an entityType and an observations array`);
+	}
+	const entityObservations = observations
+		.map(observation => importObservation(observation, timestamp, source))
+		.filter((observation, index, all) => all.findIndex(other => other.content === observation.content) === index);
+	reconcileSupersession(entityObservations);
+	return { name, entityType, observations: entityObservations };
+}
+
+function importRelation(fields: Record<string, unknown>, label: string): Relation {
+	const { from, to, relationType } = fields;
+	if (typeof from !== 'string' || !from || typeof to !== 'string' || !to || typeof relationType !== 'string' || !relationType) {
+		throw new Error(`${label}: relations need from, to and relationType`);
+	}
+	return { from, to, relationType };
+}
+
+/**
+ * Guess the format of exported data from its first characters
+ */
+function detectGraphFormat(data: string): GraphFormat {
+	const text = data.trimStart();
+	if (text.startsWith('<')) {
+		return 'graphml';
+	}
+	if (text.startsWith('[') || /^\{\s*"@(context|graph)"/.test(text)) {
+		return 'jsonld';
+	}
+	return 'jsonl';
+}
+
+/**
+ * Parse exported data into a graph; relations may still point at entities that are not in it
+ */
+function parseGraph(data: string, format: GraphFormat, timestamp: string, source?: string): KnowledgeGraph {
+	const graph: KnowledgeGraph = { entities: [], relations: [] };
+
+	switch (format) {
+		case 'jsonl': {
+			data.split('\n').forEach((line, index) => {
+				if (!line.trim()) return;
+				let item: Record<string, unknown>;
+				try {
+					item = JSON.parse(line);
+				} catch {
+					throw new Error(`Line ${index + 1}: invalid JSON`);
+				}
+				if (item.type === 'entity') {
+					graph.entities.push(importEntity(item, `Line ${index + 1}`, timestamp, source));
+				} else if (item.type === 'relation') {
+					graph.relations.push(importRelation(item, `Line ${index + 1}`));
+				} else {
+					throw new Error(`Line ${index + 1}: unknown type ${JSON.stringify(item.type)}, expected "entity" or "relation"`);
+				}
+			});
+			break;
+		}
+		case 'jsonld': {
+			let document: unknown;
+			try {
+				document = JSON.parse(data);
+			} catch {
+				throw new Error('Invalid JSON-LD: the data is not valid JSON');
+			}
+			const nodes = Array.isArray(document) ? document : (document as Record<string, unknown>)?.['@graph'];
+			if (!Array.isArray(nodes)) {
+				throw new Error('Invalid JSON-LD: expected an @graph array');
+			}
+			// Relations refer to entities by @id
+			const names = new Map<string, string>();
+			const relations: Record<string, unknown>[] = [];
+			nodes.forEach((node: Record<string, unknown>, index) => {
+				const types = [node?.['@type']].flat().map(type => String(type).replace(JSONLD_VOCABULARY, ''));
+				if (types.includes('Relation')) {
+					relations.push(node);
+					return;
+				}
+				if (!types.includes('Entity')) {
+					throw new Error(`@graph item ${index + 1}: expected @type Entity or Relation`);
+				}
+				const entity = importEntity(node, `@graph item ${index + 1}`, timestamp, source);
+				if (typeof node['@id'] === 'string') {
+					names.set(node['@id'], entity.name);
+				}
+				graph.entities.push(entity);
+			});
+			const resolve = (reference: unknown): unknown => {
+				const id = reference && typeof reference === 'object' ? (reference as Record<string, unknown>)['@id'] : reference;
+				if (typeof id !== 'string') return id;
+				if (names.has(id)) return names.get(id);
+				return id.startsWith(`${JSONLD_VOCABULARY}entity:`) ? decodeURIComponent(id.slice(`${JSONLD_VOCABULARY}entity:`.length)) : id;
+			};
+			relations.forEach((node, index) => {
+				graph.relations.push(importRelation({ ...node, from: resolve(node.from), to: resolve(node.to) }, `Relation ${index + 1}`));
+			});
+			break;
+		}
+		case 'graphml': {
+			if (!/<graphml[\s>]/.test(data)) {
+				throw new Error('Invalid GraphML: no <graphml> element');
+			}
+			// Data keys are matched by attribute name so files written by other tools import too
+			const keys = new Map<string, string>();
+			for (const match of data.matchAll(/<key\b([^>]*?)\/?>/g)) {
+				const attributes = parseXmlAttributes(match[1]);
+				const id = attributes.get('id');
+				if (id) keys.set(id, attributes.get('attr.name') ?? id);
+			}
+			const readData = (body: string) => {
+				const values = new Map<string, string>();
+				for (const match of body.matchAll(/<data\b([^>]*)>([\s\S]*?)<\/data>/g)) {
+					const key = parseXmlAttributes(match[1]).get('key') ?? '';
+					values.set(keys.get(key) ?? key, unescapeXml(match[2]));
+				}
+				return values;
+			};
+			const names = new Map<string, string>();
+			for (const match of data.matchAll(/<node\b([^>]*?)(?:\/>|>([\s\S]*?)<\/node>)/g)) {
+				const id = parseXmlAttributes(match[1]).get('id');
+				if (!id) {
+					throw new Error('Invalid GraphML: a node has no id');
+				}
+				const values = readData(match[2] ?? '');
+				let observations: unknown = [];
+				const stored = values.get('observations');
+				if (stored) {
+					try {
+						observations = JSON.parse(stored);
+					} catch {
+						observations = stored.split('\n').filter(line => line.trim());
+					}
+				}
+				const entity = importEntity({
+					name: values.get('label') || id,
+					entityType: values.get('entityType') || 'unknown',
+					observations
+				}, `Node ${id}`, timestamp, source);
+				names.set(id, entity.name);
+				graph.entities.push(entity);
+			}
+			for (const match of data.matchAll(/<edge\b([^>]*?)(?:\/>|>([\s\S]*?)<\/edge>)/g)) {
+				const attributes = parseXmlAttributes(match[1]);
+				const values = readData(match[2] ?? '');
+				const from = attributes.get('source') ?? '';
+				const to = attributes.get('target') ?? '';
+				graph.relations.push(importRelation({
+					from: names.get(from) ?? from,
+					to: names.get(to) ?? to,
+					relationType: values.get('relationType') || values.get('label') || 'related_to'
+				}, `Edge ${attributes.get('id') ?? `${from} -> ${to}`}`));
+			}
+			break;
+		}
+	}
+
+	return graph;
+}
+
+/**
+ * Export the graph, optionally limited to some entity types and the relations between them
+ */
+function export_graph(request: ExportGraphRequest, env: Environment): MCPResult {
+	try {
+		let knowledgeGraph = loadGraph(env);
+
+		const { format = 'jsonl', entityTypes } = request;
+
+		if (!GRAPH_FORMATS.includes(format)) {
+			throw new Error(`format must be one of ${GRAPH_FORMATS.join(', ')}`);
+		}
+		if (entityTypes !== undefined && !Array.isArray(entityTypes)) {
+			throw new Error('entityTypes must be an array');
+		}
+
+		const entities = entityTypes
+			? knowledgeGraph.entities.filter(entity => entityTypes.includes(entity.entityType))
+			: knowledgeGraph.entities;
+		const names = new Set(entities.map(entity => entity.name));
+		const relations = knowledgeGraph.relations.filter(relation => names.has(relation.from) && names.has(relation.to));
+
+		let summary = `Exported ${entities.length} entities and ${relations.length} relations as ${format}`;
+		if (entityTypes) {
+			summary += ` (entity types: ${entityTypes.join(', ')})`;
+		}
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: `${summary}\n\n${serializeGraph({ entities, relations }, format)}`
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error exporting graph: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
+/**
+ * Import a graph exported as JSONL, JSON-LD or GraphML, resolving existing entities with the given strategy
+ */
+function import_graph(request: ImportGraphRequest, env: Environment): MCPResult {
+	try {
+		const storedGraph = loadGraph(env);
+		let knowledgeGraph = structuredClone(storedGraph);
+
+		const { data, strategy = 'skip', source } = request;
+
+		if (typeof data !== 'string' || !data.trim()) {
+			throw new Error('data parameter is required and must be a non-empty string');
+		}
+		if (!IMPORT_STRATEGIES.includes(strategy)) {
+			throw new Error(`strategy must be one of ${IMPORT_STRATEGIES.join(', ')}`);
+		}
+		const format = request.format ?? detectGraphFormat(data);
+		if (!GRAPH_FORMATS.includes(format)) {
+			throw new Error(`format must be one of ${GRAPH_FORMATS.join(', ')}`);
+		}
+
+		const timestamp = new Date().toISOString();
+		const imported = parseGraph(data, format, timestamp, source);
+		const changes: ObservationChange[] = [];
+		const logAdded = (entityName: string, observation: Observation) => changes.push({
+			timestamp,
+			entityName,
+			action: 'added',
+			content: observation.content,
+			source: observation.source,
+			confidence: observation.confidence
+		});
+		const counts = { created: 0, merged: 0, overwritten: 0, skipped: 0, observations: 0, relations: 0, duplicateRelations: 0, danglingRelations: 0 };
+
+		for (const entity of imported.entities) {
+			const existing = knowledgeGraph.entities.find(e => e.name === entity.name);
+			if (!existing) {
+				knowledgeGraph.entities.push(entity);
+				counts.created++;
+				changes.push({ timestamp, entityName: entity.name, action: 'entity-created' });
+				entity.observations.forEach(observation => logAdded(entity.name, observation));
+				continue;
+			}
+
+			switch (strategy) {
+				case 'skip':
+					counts.skipped++;
+					break;
+				case 'overwrite': {
+					const incoming = new Set(entity.observations.map(observation => observation.content));
+					const previous = new Set(existing.observations.map(observation => observation.content));
+					for (const observation of existing.observations) {
+						if (!incoming.has(observation.content)) {
+							changes.push({ timestamp, entityName: entity.name, action: 'deleted', content: observation.content });
+						}
+					}
+					for (const observation of entity.observations) {
+						if (!previous.has(observation.content)) {
+							logAdded(entity.name, observation);
+						}
+					}
+					existing.entityType = entity.entityType;
+					existing.observations = entity.observations;
+					counts.overwritten++;
+					break;
+				}
+				case 'merge': {
+					for (const observation of entity.observations) {
+						if (!existing.observations.some(o => o.content === observation.content)) {
+							existing.observations.push(observation);
+							logAdded(entity.name, observation);
+							counts.observations++;
+						}
+					}
+					// Merged observations can supersede existing ones and the other way round
+					reconcileSupersession(existing.observations);
+					counts.merged++;
+					break;
+				}
+			}
+		}
+
+		const names = new Set(knowledgeGraph.entities.map(entity => entity.name));
+		for (const relation of imported.relations) {
+			if (!names.has(relation.from) || !names.has(relation.to)) {
+				counts.danglingRelations++;
+			} else if (knowledgeGraph.relations.some(existing =>
+				existing.from === relation.from &&
+				existing.to === relation.to &&
+				existing.relationType === relation.relationType
+			)) {
+				counts.duplicateRelations++;
+			} else {
+				knowledgeGraph.relations.push(relation);
+				counts.relations++;
+			}
+		}
+
+		enforceSchema(env, storedGraph, knowledgeGraph);
+		if (!setState(env, "knowledgeGraph", toStoredGraph(knowledgeGraph))) {
+			console.log("State was not set, check logs for the error");
+		}
+		recordChanges(env, changes);
+
+		const lines = [
+			`Imported ${imported.entities.length} entities and ${imported.relations.length} relations from ${format} (strategy: ${strategy}):`,
+			`• ${counts.created} entities created`
+		];
+		if (counts.merged > 0) lines.push(`• ${counts.merged} existing entities merged, gaining ${counts.observations} observations`);
+		if (counts.overwritten > 0) lines.push(`• ${counts.overwritten} existing entities overwritten`);
+		if (counts.skipped > 0) lines.push(`• ${counts.skipped} existing entities skipped`);
+		lines.push(`• ${counts.relations} relations added`);
+		if (counts.duplicateRelations > 0) lines.push(`• ${counts.duplicateRelations} relations already existed`);
+		if (counts.danglingRelations > 0) lines.push(`• ${counts.danglingRelations} relations skipped because an entity they connect is missing`);
+
+		return {
+			content: [
+				{
+					type: "text",
+					text: lines.join('\n')
+				}
+			]
+		};
+
+	} catch (error) {
+		return {
+			content: [
+				{
+					type: "text",
+					text: `Error importing graph: ${error instanceof Error ? error.message : String(error)}`
+				}
+			],
+			isError: true
+		};
+	}
+}
+
 // Export the functions and types for use in other modules
 export {
 	create_entities,
@@ -590,4 +2601,13 @@ export {
 	read_graph,
 	search_nodes,
 	open_nodes,
+	get_entity_history,
+	get_neighbors,
+	find_paths,
+	subgraph,
+	define_schema,
+	list_schema,
+	migrate_schema,
+	export_graph,
+	import_graph,
 };
\ No newline at end of file